@@ -1,8 +1,97 @@
-import { app, BrowserWindow } from "electron";
+import { app, BrowserWindow, ipcMain, net, protocol, screen } from "electron";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
 import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { MEDIAPIPE_ASSET_PROTOCOL } from "../src/config";
+import type { DisplayInfo } from "../src/display";
 
 let mainWindow: BrowserWindow | null = null;
 
+// 패키징 빌드는 file://로 로드되어 fetch()가 로컬 파일을 읽지 못함
+// → MediaPipe 에셋(dist/mediapipe/)을 커스텀 스킴으로 서빙
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: MEDIAPIPE_ASSET_PROTOCOL,
+    privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true },
+  },
+]);
+
+function registerAssetProtocol() {
+  const root = path.join(__dirname, "../dist");
+
+  protocol.handle(MEDIAPIPE_ASSET_PROTOCOL, (request) => {
+    // mindmaker-asset://mediapipe/wasm/x.wasm → dist/mediapipe/wasm/x.wasm
+    const { host, pathname } = new URL(request.url);
+    const filePath = path.normalize(path.join(root, host, decodeURIComponent(pathname)));
+    if (!filePath.startsWith(root + path.sep)) {
+      return new Response("Forbidden", { status: 403 });
+    }
+    if (!existsSync(filePath)) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return net.fetch(pathToFileURL(filePath).toString());
+  });
+}
+
+// 렌더러용 파일 저장소 (캘리브레이션 등) — userData/storage/<name>.json
+function registerStorageIpc() {
+  const dir = path.join(app.getPath("userData"), "storage");
+  const fileFor = (name: string) => {
+    if (!/^[\w.-]+$/.test(name)) throw new Error(`잘못된 저장소 이름: ${name}`);
+    return path.join(dir, `${name}.json`);
+  };
+
+  ipcMain.handle("storage:read", async (_e, name: string) => {
+    try {
+      return await readFile(fileFor(name), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  });
+
+  // 임시 파일에 쓴 뒤 교체 — 쓰는 도중 종료되어도 기존 파일이 깨지지 않음
+  ipcMain.handle("storage:write", async (_e, name: string, text: string) => {
+    const file = fileFor(name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(`${file}.tmp`, text, "utf-8");
+    await rename(`${file}.tmp`, file);
+  });
+}
+
+// 캘리브레이션을 디스플레이에 묶기 위한 정보 — 렌더러는 screen 모듈에 접근할 수 없음
+function currentDisplayInfo(): DisplayInfo | null {
+  if (!mainWindow) return null;
+  const content = mainWindow.getContentBounds();
+  const display = screen.getDisplayMatching(content);
+  const { bounds } = display;
+  return {
+    id: String(display.id),
+    label: display.label,
+    width: bounds.width,
+    height: bounds.height,
+    scaleFactor: display.scaleFactor,
+    window: {
+      x: (content.x - bounds.x) / bounds.width,
+      y: (content.y - bounds.y) / bounds.height,
+      width: content.width / bounds.width,
+      height: content.height / bounds.height,
+    },
+  };
+}
+
+function notifyDisplayChanged() {
+  mainWindow?.webContents.send("display:changed");
+}
+
+function registerDisplayIpc() {
+  ipcMain.handle("display:current", () => currentDisplayInfo());
+  screen.on("display-added", notifyDisplayChanged);
+  screen.on("display-removed", notifyDisplayChanged);
+  screen.on("display-metrics-changed", notifyDisplayChanged);
+}
+
 function createWindow() {
   mainWindow = new BrowserWindow({
     fullscreen: true,
@@ -22,12 +111,20 @@ function createWindow() {
     mainWindow.loadFile(path.join(__dirname, "../dist/index.html"));
   }
 
+  mainWindow.on("moved", notifyDisplayChanged);
+  mainWindow.on("resize", notifyDisplayChanged);
+
   mainWindow.on("closed", () => {
     mainWindow = null;
   });
 }
 
-app.whenReady().then(createWindow);
+app.whenReady().then(() => {
+  registerAssetProtocol();
+  registerStorageIpc();
+  registerDisplayIpc();
+  createWindow();
+});
 
 app.on("window-all-closed", () => {
   app.quit();
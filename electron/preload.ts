@@ -1,5 +1,18 @@
-import { contextBridge } from "electron";
+import { contextBridge, ipcRenderer } from "electron";
 
 contextBridge.exposeInMainWorld("electronAPI", {
   platform: process.platform,
+  storage: {
+    read: (name: string): Promise<string | null> => ipcRenderer.invoke("storage:read", name),
+    write: (name: string, text: string): Promise<void> =>
+      ipcRenderer.invoke("storage:write", name, text),
+  },
+  display: {
+    current: () => ipcRenderer.invoke("display:current"),
+    onChange: (listener: () => void): (() => void) => {
+      const handler = () => listener();
+      ipcRenderer.on("display:changed", handler);
+      return () => ipcRenderer.removeListener("display:changed", handler);
+    },
+  },
 });
@@ -0,0 +1,87 @@
+// MediaPipe 오프라인 에셋 준비 스크립트
+//
+// public/mediapipe/ 아래에 WASM 런타임과 face_landmarker.task 모델을 배치하고
+// 각 파일의 SHA-256을 manifest.json에 기록한다. Vite가 public/을 dist/로 복사하므로
+// Electron 빌드에 그대로 포함된다.
+//
+// 사용법:
+//   node scripts/fetch-mediapipe-assets.mjs                  # 모델이 없으면 다운로드
+//   node scripts/fetch-mediapipe-assets.mjs --model ./face_landmarker.task  # 로컬 파일 사용 (인터넷 없는 빌드 PC)
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { copyFile, mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/latest/face_landmarker.task";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const wasmSrc = path.join(root, "node_modules/@mediapipe/tasks-vision/wasm");
+const outDir = path.join(root, "public/mediapipe");
+const wasmOut = path.join(outDir, "wasm");
+const modelOut = path.join(outDir, "face_landmarker.task");
+
+function sha256(buf) {
+  return createHash("sha256").update(buf).digest("hex");
+}
+
+function argValue(name) {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const pkg = JSON.parse(
+    await readFile(path.join(wasmSrc, "../package.json"), "utf8")
+  );
+
+  await mkdir(wasmOut, { recursive: true });
+
+  // 1. WASM fileset: 설치된 @mediapipe/tasks-vision 버전과 항상 일치하도록 매번 복사
+  const wasmFiles = (await readdir(wasmSrc)).filter(
+    (f) => f.endsWith(".js") || f.endsWith(".wasm")
+  );
+  for (const f of wasmFiles) {
+    await copyFile(path.join(wasmSrc, f), path.join(wasmOut, f));
+  }
+
+  // 2. 모델: --model 인자 > 기존 파일 > 다운로드
+  const localModel = argValue("--model") ?? process.env.MEDIAPIPE_MODEL_PATH;
+  if (localModel) {
+    await copyFile(path.resolve(localModel), modelOut);
+  } else if (!existsSync(modelOut)) {
+    console.log(`[assets] downloading ${MODEL_URL}`);
+    const res = await fetch(MODEL_URL);
+    if (!res.ok) {
+      throw new Error(`모델 다운로드 실패: HTTP ${res.status}`);
+    }
+    await writeFile(modelOut, Buffer.from(await res.arrayBuffer()));
+  }
+
+  // 3. 무결성 매니페스트
+  const files = {};
+  for (const f of wasmFiles) {
+    files[`wasm/${f}`] = sha256(await readFile(path.join(wasmOut, f)));
+  }
+  files["face_landmarker.task"] = sha256(await readFile(modelOut));
+
+  const manifest = { tasksVisionVersion: pkg.version, files };
+  await writeFile(
+    path.join(outDir, "manifest.json"),
+    JSON.stringify(manifest, null, 2) + "\n"
+  );
+
+  console.log(
+    `[assets] public/mediapipe ready (${Object.keys(files).length} files, tasks-vision ${pkg.version})`
+  );
+}
+
+main().catch((err) => {
+  console.error(`[assets] ${err.message}`);
+  console.error(
+    "[assets] 인터넷이 없는 환경이면 --model <face_landmarker.task 경로> 로 모델 파일을 지정하세요."
+  );
+  process.exit(1);
+});
@@ -1,48 +1,400 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useTracker } from "./tracking/useTracker";
 import { CalibrationScreen } from "./components/CalibrationScreen";
 import { CommBoard } from "./components/CommBoard";
 import { GazeOverlay } from "./components/GazeOverlay";
 import { DebugPanel } from "./components/DebugPanel";
+import { CameraSettingsScreen } from "./components/CameraSettingsScreen";
+import { ProfileScreen } from "./components/ProfileScreen";
+import { RestoreCalibrationScreen } from "./components/RestoreCalibrationScreen";
+import { DriftCorrectionScreen } from "./components/DriftCorrectionScreen";
+import { ValidationScreen } from "./components/ValidationScreen";
+import { PursuitCalibrationScreen } from "./components/PursuitCalibrationScreen";
+import { FilterComparisonScreen } from "./components/FilterComparisonScreen";
+import { DisplayChangedScreen } from "./components/DisplayChangedScreen";
+import { BoardEditorScreen } from "./components/BoardEditorScreen";
 import type { CalibrationSample } from "./tracking/GazeMapper";
+import type { EarBaseline } from "./tracking/EarBaseline";
+import { loadLatestCalibration, type SavedCalibration } from "./tracking/calibrationStore";
+import { badCalibrationPoints } from "./tracking/validation";
+import { downloadRecording, parseRecording } from "./tracking/SessionRecorder";
+import { compareFilters, type FilterComparison } from "./tracking/filterComparison";
+import { DEFAULT_FILTER_SETTINGS, type FilterSettings } from "./tracking/gazeFilters";
+import { DISTANCE_GUIDE_LABELS } from "./tracking/viewingDistance";
+import { POSITION_FEATURE_LABELS } from "./tracking/PositionMonitor";
+import { currentDisplay } from "./display";
+import { isFormField } from "./keyboard";
+import { speak } from "./speech";
+import { AUTO_CALIBRATION_RETRY_MAX } from "./config";
+import { DEFAULT_BOARD, loadBoard, saveBoard, type BoardDefinition } from "./board";
+import {
+  loadProfiles,
+  saveProfiles,
+  activeProfile,
+  type PatientProfile,
+  type ProfileStore,
+} from "./patientProfile";
 
-type Screen = "loading" | "calibrating" | "communicating";
+type Screen =
+  | "loading"
+  | "restore"
+  | "calibrating"
+  | "validating"
+  | "correcting"
+  | "communicating";
 
 export function App() {
-  const { state, videoRef, calibrate, resetCalibration, zoomLevel, zoomIn, zoomOut } = useTracker();
+  const [profiles, setProfiles] = useState(loadProfiles);
+  const profile = activeProfile(profiles);
+  const {
+    state,
+    videoRef,
+    calibrate,
+    resetCalibration,
+    calibrationDiagnostics,
+    correctDrift,
+    confirmSelection,
+    rejectLastSelection,
+    savedCalibrationMismatch,
+    restoreCalibration,
+    displayNotice,
+    acceptDisplayChange,
+    cameraNotice,
+    clearCameraNotice,
+    zoomLevel,
+    zoomIn,
+    zoomOut,
+    autoFrame,
+    toggleAutoFrame,
+    cameraSettings,
+    applyCameraSettings,
+    sourceKind,
+    switchToWebcam,
+    switchToMouse,
+    sessionMode,
+    selectionMode,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
+  } = useTracker(profile);
   const [screen, setScreen] = useState<Screen>("loading");
   const [debug, setDebug] = useState(false);
+  const [showCameraSettings, setShowCameraSettings] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showBoardEditor, setShowBoardEditor] = useState(false);
+  const [board, setBoard] = useState<BoardDefinition>(DEFAULT_BOARD);
+  const [boardError, setBoardError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const compareInputRef = useRef<HTMLInputElement>(null);
+  const [filterComparison, setFilterComparison] = useState<FilterComparison[] | null>(null);
+  const [savedCalibration, setSavedCalibration] = useState<SavedCalibration | null>(null);
+  const [calibrationNotice, setCalibrationNotice] = useState<string | null>(null);
+  const calibrationSamplesRef = useRef<CalibrationSample[]>([]);
+  const [badPoints, setBadPoints] = useState<{ x: number; y: number }[]>([]);
+  const [redoPoints, setRedoPoints] = useState<{ x: number; y: number }[] | null>(null);
+  const [calibrationRun, setCalibrationRun] = useState(0); // 캘리브레이션 화면 key — 같은 화면에서 처음부터 다시 할 때 증가
+  const [redoCount, setRedoCount] = useState(0); // 마지막으로 사용한 캘리브레이션 이후 다시 한 횟수
+  const [calibrationFailed, setCalibrationFailed] = useState(false); // 자동 모드에서 재시도까지 실패 — 보드에 안내
+  const calibrationMethod = profile.calibrationMethod ?? "grid";
 
-  // When loading finishes, go to calibration
-  if (screen === "loading" && !state.isLoading && !state.error) {
+  // When loading finishes, offer the saved calibration (if still valid) or go to calibration
+  useEffect(() => {
+    if (screen !== "loading" || state.isLoading || state.error) return;
+    let cancelled = false;
+    currentDisplay().then(async (display) => {
+      const saved = await loadLatestCalibration(profile.id);
+      if (cancelled) return;
+      const mismatch = saved && savedCalibrationMismatch(saved, display);
+      if (saved && !mismatch) {
+        setSavedCalibration(saved);
+        setScreen("restore");
+        return;
+      }
+      if (mismatch) console.log(`[Calibration] 이전 캘리브레이션 사용 불가: ${mismatch}`);
+      setCalibrationNotice(mismatch ? `${mismatch} — 새로 캘리브레이션합니다` : null);
+      setScreen("calibrating");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [screen, state.isLoading, state.error, profile.id, savedCalibrationMismatch]);
+
+  const handleRestore = useCallback(() => {
+    if (savedCalibration) restoreCalibration(savedCalibration);
+    setScreen("communicating");
+  }, [savedCalibration, restoreCalibration]);
+
+  const fitCalibration = useCallback(
+    (samples: CalibrationSample[]) => (calibrate(samples) ? calibrationDiagnostics() : null),
+    [calibrate, calibrationDiagnostics]
+  );
+
+  /** 캘리브레이션을 처음부터 다시 (재시도 횟수는 유지 — 보호자가 시작하면 handleRecalibrate) */
+  const restartCalibration = useCallback(() => {
+    resetCalibration();
+    setCalibrationNotice(null);
+    setRedoPoints(null);
+    setRedoCount((n) => n + 1);
+    setCalibrationRun((n) => n + 1);
     setScreen("calibrating");
-  }
+  }, [resetCalibration]);
+
+  // 다른 카메라로 바뀌어 캘리브레이션이 폐기됨 (useTracker) → 안내와 함께 새로 캘리브레이션
+  useEffect(() => {
+    if (!cameraNotice) return;
+    clearCameraNotice();
+    if (screen === "loading" || screen === "restore") return; // 로딩 단계에서 저장된 캘리브레이션과 다시 비교함
+    setCalibrationNotice(`${cameraNotice} — 새로 캘리브레이션합니다`);
+    setRedoPoints(null);
+    setRedoCount(0);
+    setCalibrationFailed(false);
+    setCalibrationRun((n) => n + 1);
+    setScreen("calibrating");
+  }, [cameraNotice, clearCameraNotice, screen]);
 
   const handleCalibrationComplete = useCallback(
-    (samples: CalibrationSample[]) => {
-      const ok = calibrate(samples);
+    (samples: CalibrationSample[], ok: boolean) => {
+      calibrationSamplesRef.current = samples;
+      setRedoPoints(null);
+
       if (ok) {
+        const diagnostics = calibrationDiagnostics();
+        setBadPoints(diagnostics ? badCalibrationPoints(samples, diagnostics) : []);
+        setCalibrationFailed(false);
+        setScreen("validating");
+      } else if (!profile.autoCalibration) {
+        alert("캘리브레이션 실패. R 키를 눌러 재시도해 주세요.");
         setScreen("communicating");
+      } else if (redoCount < AUTO_CALIBRATION_RETRY_MAX) {
+        // 자동 모드는 보호자가 없을 수 있으므로 멈추지 않고 다시 시작 (밤에 점을 건너뛰어 샘플이 부족한 경우 등)
+        speak("시선 맞추기를 다시 할게요");
+        restartCalibration();
+        setCalibrationNotice("캘리브레이션 실패 — 자동으로 다시 합니다");
       } else {
-        alert("캘리브레이션 실패. R 키를 눌러 재시도해 주세요.");
+        speak("시선 맞추기를 하지 못했어요. 보호자를 불러 주세요");
+        setCalibrationFailed(true);
         setScreen("communicating");
       }
     },
-    [calibrate]
+    [calibrationDiagnostics, profile.autoCalibration, redoCount, restartCalibration]
+  );
+
+  const handleValidationAccept = useCallback(() => {
+    setRedoCount(0);
+    setScreen("communicating");
+  }, []);
+
+  const handleRedoBadPoints = useCallback(() => {
+    setRedoPoints(badPoints);
+    setRedoCount((n) => n + 1);
+    setScreen("calibrating");
+  }, [badPoints]);
+
+  /** 활성 프로필 일부 갱신 + 저장 (useTracker가 파이프라인에 적용) */
+  const updateActiveProfile = useCallback((patch: Partial<PatientProfile>) => {
+    setProfiles((store) => {
+      const next = {
+        ...store,
+        profiles: store.profiles.map((p) =>
+          p.id === activeProfile(store).id ? { ...p, ...patch } : p
+        ),
+      };
+      saveProfiles(next);
+      return next;
+    });
+  }, []);
+
+  /** 측정한 EAR 베이스라인을 활성 프로필에 저장 */
+  const handleBaseline = useCallback(
+    (earBaseline: EarBaseline) => updateActiveProfile({ earBaseline }),
+    [updateActiveProfile]
   );
 
   const handleRecalibrate = useCallback(() => {
     resetCalibration();
+    setCalibrationNotice(null);
+    setRedoPoints(null);
+    setRedoCount(0);
+    setCalibrationFailed(false);
     setScreen("calibrating");
   }, [resetCalibration]);
 
+  /** 환자/눈 설정이 바뀌면 기존 캘리브레이션은 무효 (useTracker에서 폐기됨) */
+  const handleProfilesSave = useCallback(
+    (next: ProfileStore) => {
+      saveProfiles(next);
+      setProfiles(next);
+      const prev = activeProfile(profiles);
+      const cur = activeProfile(next);
+      // 새 환자의 저장된 캘리브레이션이 있으면 로딩 단계에서 재사용 여부를 물음
+      if (sourceKind === "webcam" && (prev.id !== cur.id || prev.eye !== cur.eye)) {
+        setScreen("loading");
+      }
+    },
+    [profiles, sourceKind]
+  );
+
+  // 드리프트 보정: 캘리브레이션된 웹캠 추적 중일 때만 (보호자 C 키 또는 보드 버튼)
+  const canCorrectDrift = sourceKind === "webcam" && state.gazeValid;
+
+  const handleDriftCorrect = useCallback(() => {
+    setScreen("correcting");
+  }, []);
+
+  const handleDriftComplete = useCallback(
+    (samples: CalibrationSample[]) => {
+      if (!correctDrift(samples)) console.warn("[Drift] 보정 실패 — 기존 캘리브레이션 유지");
+      setScreen("communicating");
+    },
+    [correctDrift]
+  );
+
+  const handleDriftCancel = useCallback(() => {
+    setScreen("communicating");
+  }, []);
+
+  // 보드 정의: 사용자 데이터 폴더의 board.json (없거나 손상되면 기본 보드)
+  useEffect(() => {
+    loadBoard().then(({ board, error }) => {
+      setBoard(board);
+      setBoardError(error);
+    });
+  }, []);
+
+  const handleBoardSave = useCallback(async (next: BoardDefinition) => {
+    await saveBoard(next);
+    setBoard(next);
+    setBoardError(null);
+  }, []);
+
   const handleSelect = useCallback((label: string) => {
     console.log("[선택]", label);
   }, []);
 
+  const handleReplayFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      try {
+        startReplay(parseRecording(await file.text()));
+        setScreen("communicating");
+      } catch (err) {
+        alert(err instanceof Error ? err.message : "녹화 파일을 열 수 없습니다");
+      }
+    },
+    [startReplay]
+  );
+
+  /** 녹화 파일로 필터 비교: 기본 필터 3종 + 현재 프로필 필터 */
+  const handleCompareFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+      try {
+        const rec = parseRecording(await file.text());
+        const current = profile.filter ?? DEFAULT_FILTER_SETTINGS;
+        const candidates: FilterSettings[] = (["legacy", "one-euro", "kalman"] as const).map(
+          (kind) => ({ ...DEFAULT_FILTER_SETTINGS, kind })
+        );
+        if (!candidates.some((c) => JSON.stringify(c) === JSON.stringify(current))) {
+          candidates.push(current);
+        }
+        const results = compareFilters(rec, candidates);
+        if (!results) {
+          alert("녹화에 캘리브레이션이 없어 필터를 비교할 수 없습니다");
+          return;
+        }
+        console.table(results, ["label", "fixationJitterPx", "movementLagPx"]);
+        setFilterComparison(results);
+      } catch (err) {
+        alert(err instanceof Error ? err.message : "녹화 파일을 열 수 없습니다");
+      }
+    },
+    [profile]
+  );
+
+  const handleFilterApply = useCallback(
+    (filter: FilterSettings) => updateActiveProfile({ filter }),
+    [updateActiveProfile]
+  );
+
+  // 입력 소스 / 세션 녹화·재생 단축키 (보호자/개발자용)
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (isFormField(e.target)) return;
+      // 마우스 에뮬레이션: 카메라 없이 보드 시연/설정
+      if (e.code === "KeyM" && e.ctrlKey && sessionMode === "live") {
+        e.preventDefault();
+        if (sourceKind === "mouse") {
+          setScreen(switchToWebcam() ? "communicating" : "calibrating");
+        } else {
+          switchToMouse();
+          setScreen("communicating");
+        }
+      }
+      if (e.code === "KeyS" && e.ctrlKey) {
+        e.preventDefault();
+        if (sessionMode === "recording") {
+          const rec = stopRecording();
+          if (rec) downloadRecording(rec);
+        } else if (sessionMode === "live") {
+          startRecording();
+        }
+      }
+      if (e.code === "KeyO" && e.ctrlKey && !e.shiftKey && sessionMode === "live") {
+        e.preventDefault();
+        replayInputRef.current?.click();
+      }
+      // 녹화 파일로 시선 필터 비교
+      if (e.code === "KeyO" && e.ctrlKey && e.shiftKey && sessionMode === "live") {
+        e.preventDefault();
+        compareInputRef.current?.click();
+      }
+      // 자동 줌: 얼굴 따라가기 ↔ 중앙 고정
+      if (e.code === "KeyA" && !e.ctrlKey) {
+        toggleAutoFrame();
+      }
+      if (e.code === "KeyK" && e.ctrlKey && sourceKind === "webcam") {
+        e.preventDefault();
+        setShowCameraSettings((v) => !v);
+      }
+      if (e.code === "KeyC" && !e.ctrlKey && screen === "communicating" && canCorrectDrift) {
+        setScreen("correcting");
+      }
+      if (e.code === "KeyP" && e.ctrlKey && sessionMode === "live") {
+        e.preventDefault();
+        setShowProfiles((v) => !v);
+      }
+      if (e.code === "KeyB" && e.ctrlKey) {
+        e.preventDefault();
+        setShowBoardEditor((v) => !v);
+      }
+      if (e.code === "Escape" && sessionMode === "replay") {
+        setScreen(stopReplay() ? "communicating" : "calibrating");
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [
+    screen,
+    canCorrectDrift,
+    sessionMode,
+    sourceKind,
+    toggleAutoFrame,
+    switchToWebcam,
+    switchToMouse,
+    startRecording,
+    stopRecording,
+    stopReplay,
+  ]);
+
   // Keyboard shortcuts
   useState(() => {
     function onKeyDown(e: KeyboardEvent) {
+      if (isFormField(e.target)) return;
       if (e.code === "KeyR" && screen !== "calibrating") {
         handleRecalibrate();
       }
@@ -79,9 +431,35 @@ export function App() {
 
       {/* Zoom indicator */}
       <div className="zoom-indicator">
-        x{zoomLevel.toFixed(1)} <span className="zoom-hint">+/-</span>
+        x{zoomLevel.toFixed(1)} {autoFrame && zoomLevel > 1 && "AUTO "}
+        <span className="zoom-hint">+/- · A</span>
       </div>
 
+      {/* Session record / replay */}
+      {sessionMode === "recording" && (
+        <div className="session-indicator recording">● 녹화 중 (Ctrl+S: 저장)</div>
+      )}
+      {sessionMode === "replay" && (
+        <div className="session-indicator replay">▶ 녹화 재생 중 (Esc: 종료)</div>
+      )}
+      {sourceKind === "mouse" && (
+        <div className="session-indicator replay">🖱 마우스 모드 (E: 눈 감기, Ctrl+M: 카메라로)</div>
+      )}
+      <input
+        ref={replayInputRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: "none" }}
+        onChange={handleReplayFile}
+      />
+      <input
+        ref={compareInputRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: "none" }}
+        onChange={handleCompareFile}
+      />
+
       {/* Loading */}
       {state.isLoading && (
         <div className="center-message">
@@ -93,41 +471,175 @@ export function App() {
       {/* Error */}
       {state.error && (
         <div className="center-message error">
-          <p>카메라 오류</p>
+          <p>{state.errorKind === "model" ? "시선 추적 모델 로딩 오류" : "카메라 오류"}</p>
           <p className="error-detail">{state.error}</p>
-          <p className="error-hint">카메라가 연결되어 있는지 확인해 주세요</p>
+          <p className="error-hint">
+            {state.errorKind === "model"
+              ? "프로그램 폴더의 mediapipe 파일이 손상되었거나 없습니다. 프로그램을 다시 설치해 주세요"
+              : "카메라가 연결되어 있는지 확인해 주세요 (Ctrl+K: 카메라 설정)"}
+          </p>
         </div>
       )}
 
+      {/* Saved calibration prompt */}
+      {screen === "restore" && savedCalibration && (
+        <RestoreCalibrationScreen
+          saved={savedCalibration}
+          onRestore={handleRestore}
+          onRecalibrate={handleRecalibrate}
+        />
+      )}
+
+      {/* Calibration — 움직이는 점 방식 (나쁜 포인트만 다시 볼 때는 격자 화면 사용) */}
+      {screen === "calibrating" && !state.isLoading && !state.error && calibrationMethod === "pursuit" && !redoPoints && (
+        <PursuitCalibrationScreen
+          key={calibrationRun}
+          trackerState={state}
+          notice={calibrationNotice}
+          auto={profile.autoCalibration}
+          fit={fitCalibration}
+          onComplete={handleCalibrationComplete}
+        />
+      )}
+
       {/* Calibration */}
-      {screen === "calibrating" && !state.isLoading && !state.error && (
+      {screen === "calibrating" && !state.isLoading && !state.error && (calibrationMethod === "grid" || redoPoints) && (
         <CalibrationScreen
+          key={calibrationRun}
           trackerState={state}
+          notice={calibrationNotice}
+          auto={profile.autoCalibration}
+          baseSamples={redoPoints ? calibrationSamplesRef.current : undefined}
+          redoPoints={redoPoints ?? undefined}
+          fit={fitCalibration}
+          onBaseline={handleBaseline}
           onComplete={handleCalibrationComplete}
         />
       )}
 
+      {/* Validation */}
+      {screen === "validating" && (
+        <ValidationScreen
+          trackerState={state}
+          diagnostics={calibrationDiagnostics()}
+          method={calibrationMethod}
+          badPointCount={badPoints.length}
+          autoAccept={profile.autoCalibration}
+          autoRedo={redoCount < AUTO_CALIBRATION_RETRY_MAX}
+          onAccept={handleValidationAccept}
+          onRedoBad={handleRedoBadPoints}
+          onRedoAll={restartCalibration}
+        />
+      )}
+
       {/* Communication Board */}
       {screen === "communicating" && (
-        <CommBoard trackerState={state} onSelect={handleSelect} />
+        <CommBoard
+          trackerState={state}
+          board={board.nodes}
+          selectionMode={selectionMode}
+          onSelect={handleSelect}
+          onDriftCorrect={canCorrectDrift ? handleDriftCorrect : undefined}
+          onRecalibrate={canCorrectDrift ? handleRecalibrate : undefined}
+          onConfirmTarget={confirmSelection}
+          onBack={rejectLastSelection}
+        />
+      )}
+
+      {/* Drift Correction */}
+      {screen === "correcting" && (
+        <DriftCorrectionScreen
+          trackerState={state}
+          onComplete={handleDriftComplete}
+          onCancel={handleDriftCancel}
+        />
       )}
 
       {/* Gaze Overlay */}
       <GazeOverlay
         x={state.gazeX}
         y={state.gazeY}
+        errorPx={state.gazeErrorPx}
         visible={state.gazeValid && screen === "communicating"}
       />
 
-      {/* Face Warning */}
+      {/* Face / Camera Warning */}
       {!state.isLoading &&
         !state.error &&
         !state.faceDetected && (
-          <div className="face-warning">얼굴이 감지되지 않습니다</div>
+          <div className="face-warning">
+            {state.cameraConnected
+              ? "얼굴이 감지되지 않습니다"
+              : "카메라 연결이 끊어졌습니다 — 다시 연결하는 중..."}
+          </div>
         )}
 
+      {/* Calibration failed — 자동 모드 재시도까지 실패 (알림창은 보호자 없이 닫을 수 없으므로 화면 안내) */}
+      {screen === "communicating" && calibrationFailed && (
+        <div className="calibration-failed">캘리브레이션 실패 — 보호자: R 키로 다시 시도</div>
+      )}
+
+      {/* Position change — 캘리브레이션 때 머리 위치에서 벗어남 (크게 벗어나면 보드에서 보정 제안) */}
+      {screen === "communicating" && state.faceDetected && state.position && state.position.level !== "ok" && (
+        <div className="position-indicator">
+          자세 변화 · {POSITION_FEATURE_LABELS[state.position.feature]}
+        </div>
+      )}
+
+      {/* Display change — 다른 모니터/창 영역에서는 재캘리브레이션 여부 확인 */}
+      {screen === "communicating" && displayNotice && (
+        <DisplayChangedScreen
+          reason={displayNotice}
+          onRecalibrate={handleRecalibrate}
+          onKeep={acceptDisplayChange}
+        />
+      )}
+
+      {/* Positioning guide — 캘리브레이션 때보다 너무 멀거나 가까움 */}
+      {screen === "communicating" && state.faceDetected && state.distanceGuide && (
+        <div className="distance-guide">{DISTANCE_GUIDE_LABELS[state.distanceGuide]}</div>
+      )}
+
+      {/* Camera Settings (보호자용) */}
+      {showCameraSettings && (
+        <CameraSettingsScreen
+          current={cameraSettings}
+          onApply={applyCameraSettings}
+          onClose={() => setShowCameraSettings(false)}
+        />
+      )}
+
+      {/* Filter Comparison (보호자용) */}
+      {filterComparison && (
+        <FilterComparisonScreen
+          results={filterComparison}
+          current={profile.filter ?? DEFAULT_FILTER_SETTINGS}
+          onApply={handleFilterApply}
+          onClose={() => setFilterComparison(null)}
+        />
+      )}
+
+      {/* Patient Profiles (보호자용) */}
+      {showProfiles && (
+        <ProfileScreen
+          store={profiles}
+          onSave={handleProfilesSave}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+
+      {/* Board Editor (보호자용) */}
+      {showBoardEditor && (
+        <BoardEditorScreen
+          board={board}
+          loadError={boardError}
+          onSave={handleBoardSave}
+          onClose={() => setShowBoardEditor(false)}
+        />
+      )}
+
       {/* Debug Panel */}
-      {debug && <DebugPanel state={state} />}
+      {debug && <DebugPanel state={state} diagnostics={calibrationDiagnostics()} />}
     </div>
   );
 }
@@ -0,0 +1,189 @@
+import { readStored, writeStored } from "./storage";
+import { BOARD_MAX_BUTTONS, BOARD_MAX_LABEL_LENGTH } from "./config";
+
+/**
+ * 보드 버튼 — children이 있으면 하위 화면으로 들어가는 카테고리, 없으면 말하는 문구.
+ * 깊이 제한 없음 (하위 화면마다 첫 버튼은 "뒤로")
+ */
+export interface BoardNode {
+  id: string;
+  label: string; // 버튼에 보이는 글자
+  speech?: string; // 소리 내어 말할 문장 (없으면 label)
+  color?: string; // 버튼 배경색 (#rrggbb, 없으면 기본색)
+  emergency?: boolean; // 빨간 테두리 강조
+  children?: BoardNode[];
+}
+
+export interface BoardDefinition {
+  version: 1;
+  nodes: BoardNode[]; // 첫 화면 버튼
+}
+
+const STORAGE_NAME = "board"; // Electron: userData/storage/board.json
+
+let nextId = 0;
+export function createNodeId(): string {
+  return `b${Date.now().toString(36)}${(nextId++).toString(36)}`;
+}
+
+function phrases(prefix: string, labels: string[]): BoardNode[] {
+  return labels.map((label, i) => ({ id: `${prefix}${i}`, label }));
+}
+
+/** board.json이 없을 때 쓰는 기본 보드 (보호자가 편집하면 파일로 저장) */
+export const DEFAULT_BOARD: BoardDefinition = {
+  version: 1,
+  nodes: [
+    {
+      id: "greeting",
+      label: "인사 및 안부",
+      children: phrases("greeting-", [
+        "어서와",
+        "안녕",
+        "잘지냈어?",
+        "밥 먹었어?",
+        "보고싶었어",
+        "잘 가",
+        "좋은 하루 보내",
+      ]),
+    },
+    {
+      id: "talk",
+      label: "의사소통",
+      children: phrases("talk-", ["고마워", "미안해", "뭐하고왔어?", "배고파", "목말라", "좋아", "싫어"]),
+    },
+    {
+      id: "family",
+      label: "가족",
+      children: phrases("family-", ["경탁이", "미라", "미승이", "영승이", "소향이", "근탁이"]),
+    },
+    {
+      id: "emergency",
+      label: "긴급",
+      emergency: true,
+      children: phrases("emergency-", [
+        "아파",
+        "간호사 불러줘",
+        "화장실 가고 싶어",
+        "약 먹을 시간이야",
+        "숨이 답답해",
+        "어지러워",
+        "도와줘",
+      ]),
+    },
+  ],
+};
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/** 경로(첫 화면부터 고른 버튼 인덱스)의 화면 버튼들 — 경로가 잘못되면 null */
+export function nodesAt(nodes: BoardNode[], path: number[]): BoardNode[] | null {
+  let current = nodes;
+  for (const i of path) {
+    const children = current[i]?.children;
+    if (!children) return null;
+    current = children;
+  }
+  return current;
+}
+
+/** 경로의 화면 버튼 목록을 바꾼 새 보드 (편집기용, 원본은 그대로) */
+export function updateNodesAt(
+  nodes: BoardNode[],
+  path: number[],
+  update: (level: BoardNode[]) => BoardNode[]
+): BoardNode[] {
+  if (path.length === 0) return update(nodes);
+  const [i, ...rest] = path;
+  return nodes.map((n, j) =>
+    j === i && n.children ? { ...n, children: updateNodesAt(n.children, rest, update) } : n
+  );
+}
+
+/** 경로에 있는 카테고리 이름들 (화면 제목/편집기 위치 표시용) */
+export function pathLabels(nodes: BoardNode[], path: number[]): string[] {
+  const labels: string[] = [];
+  let current = nodes;
+  for (const i of path) {
+    const node = current[i];
+    if (!node?.children) break;
+    labels.push(node.label);
+    current = node.children;
+  }
+  return labels;
+}
+
+/**
+ * 보드 검증 — 문제 목록 (비어 있으면 사용 가능).
+ * 파일을 직접 고쳤을 수도 있으므로 타입을 믿지 않고 모든 필드를 확인
+ */
+export function validateBoard(value: unknown): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  const checkNodes = (nodes: unknown, where: string) => {
+    if (!Array.isArray(nodes) || nodes.length === 0) {
+      errors.push(`${where}: 버튼이 하나 이상 있어야 합니다`);
+      return;
+    }
+    if (nodes.length > BOARD_MAX_BUTTONS) {
+      errors.push(`${where}: 버튼은 ${BOARD_MAX_BUTTONS}개까지입니다 (${nodes.length}개)`);
+    }
+    nodes.forEach((n: Partial<BoardNode> | null, i) => {
+      const name =
+        typeof n?.label === "string" && n.label.trim() ? `"${n.label}"` : `${i + 1}번째 버튼`;
+      const at = `${where} > ${name}`;
+      if (!n || typeof n !== "object") {
+        errors.push(`${at}: 형식이 잘못되었습니다`);
+        return;
+      }
+      if (typeof n.id !== "string" || !n.id) errors.push(`${at}: id가 없습니다`);
+      else if (ids.has(n.id)) errors.push(`${at}: id "${n.id}"가 중복됩니다`);
+      else ids.add(n.id);
+
+      if (typeof n.label !== "string" || !n.label.trim()) errors.push(`${at}: 글자가 비어 있습니다`);
+      else if (n.label.length > BOARD_MAX_LABEL_LENGTH) {
+        errors.push(`${at}: 글자는 ${BOARD_MAX_LABEL_LENGTH}자까지입니다`);
+      }
+      if (n.speech !== undefined && typeof n.speech !== "string") {
+        errors.push(`${at}: 말할 문장 형식이 잘못되었습니다`);
+      }
+      if (n.color !== undefined && (typeof n.color !== "string" || !COLOR_PATTERN.test(n.color))) {
+        errors.push(`${at}: 색은 #rrggbb 형식이어야 합니다`);
+      }
+      if (n.children !== undefined) checkNodes(n.children, at);
+    });
+  };
+
+  const board = value as Partial<BoardDefinition> | null;
+  if (!board || typeof board !== "object" || board.version !== 1) {
+    errors.push("보드 파일 형식(version)이 잘못되었습니다");
+  } else {
+    checkNodes(board.nodes, "첫 화면");
+  }
+  return errors;
+}
+
+/**
+ * 저장된 보드 불러오기. 파일이 없으면 기본 보드, 손상되었거나 검증에 실패하면
+ * 기본 보드와 함께 이유를 돌려줌 (보호자에게 알리고 파일은 덮어쓰지 않음)
+ */
+export async function loadBoard(): Promise<{ board: BoardDefinition; error: string | null }> {
+  try {
+    const saved = await readStored<BoardDefinition>(STORAGE_NAME);
+    if (!saved) return { board: DEFAULT_BOARD, error: null };
+    const errors = validateBoard(saved);
+    if (errors.length > 0) {
+      console.warn("[Board] 보드 파일 검증 실패 — 기본 보드 사용:", errors);
+      return { board: DEFAULT_BOARD, error: errors[0] };
+    }
+    return { board: saved, error: null };
+  } catch (err) {
+    console.warn("[Board] 보드 파일을 읽을 수 없음 — 기본 보드 사용:", err);
+    return { board: DEFAULT_BOARD, error: "보드 파일이 손상되었습니다" };
+  }
+}
+
+export async function saveBoard(board: BoardDefinition): Promise<void> {
+  await writeStored(STORAGE_NAME, board);
+}
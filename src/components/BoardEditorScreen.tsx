@@ -0,0 +1,249 @@
+import { useState, useEffect } from "react";
+import {
+  DEFAULT_BOARD,
+  createNodeId,
+  nodesAt,
+  pathLabels,
+  updateNodesAt,
+  validateBoard,
+  type BoardDefinition,
+  type BoardNode,
+} from "../board";
+import { BOARD_MAX_LABEL_LENGTH } from "../config";
+
+interface Props {
+  board: BoardDefinition;
+  loadError: string | null; // board.json을 쓰지 못해 기본 보드를 보여주는 이유
+  onSave: (board: BoardDefinition) => Promise<void>;
+  onClose: () => void;
+}
+
+const DEFAULT_COLOR = "#2a3a5a"; // 색 선택 시작값 (버튼 기본색과 비슷하게)
+
+/**
+ * 보호자용 보드 편집 (마우스/키보드) — 카테고리/문구 추가, 순서 변경, 삭제.
+ * 검증을 통과해야 저장되며, 미리보기는 편집 중인 화면을 보드 모양 그대로 보여줌
+ */
+export function BoardEditorScreen({ board, loadError, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState(board);
+  const [path, setPath] = useState<number[]>([]); // 편집 중인 화면 (첫 화면부터 카테고리 인덱스)
+  const [selected, setSelected] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.code === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const level = nodesAt(draft.nodes, path) ?? [];
+  const node = selected !== null ? level[selected] : undefined;
+  const errors = validateBoard(draft);
+
+  const updateLevel = (update: (nodes: BoardNode[]) => BoardNode[]) => {
+    setDraft({ ...draft, nodes: updateNodesAt(draft.nodes, path, update) });
+  };
+
+  const updateNode = (patch: Partial<BoardNode>) => {
+    if (selected === null) return;
+    updateLevel((nodes) => nodes.map((n, i) => (i === selected ? { ...n, ...patch } : n)));
+  };
+
+  const addNode = (category: boolean) => {
+    const added: BoardNode = category
+      ? {
+          id: createNodeId(),
+          label: "새 카테고리",
+          children: [{ id: createNodeId(), label: "새 문구" }],
+        }
+      : { id: createNodeId(), label: "새 문구" };
+    updateLevel((nodes) => [...nodes, added]);
+    setSelected(level.length);
+  };
+
+  const move = (index: number, delta: number) => {
+    const to = index + delta;
+    if (to < 0 || to >= level.length) return;
+    updateLevel((nodes) => {
+      const next = [...nodes];
+      [next[index], next[to]] = [next[to], next[index]];
+      return next;
+    });
+    setSelected(to);
+  };
+
+  const remove = (index: number) => {
+    const target = level[index];
+    const question = `"${target.label}" 카테고리와 안의 버튼 ${target.children?.length}개를 삭제할까요?`;
+    if (target.children && !window.confirm(question)) return;
+    updateLevel((nodes) => nodes.filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  const open = (next: number[]) => {
+    setPath(next);
+    setSelected(null);
+  };
+
+  const resetToDefault = () => {
+    setDraft(DEFAULT_BOARD);
+    open([]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err) {
+      console.error("[Board] 저장 실패:", err);
+      setSaveError("저장하지 못했습니다 — 다시 시도해 주세요");
+      setSaving(false);
+    }
+  };
+
+  const crumbs = ["첫 화면", ...pathLabels(draft.nodes, path)];
+  const previewCols = Math.ceil((level.length + (path.length > 0 ? 1 : 0)) / 2);
+
+  return (
+    <div className="settings-screen">
+      <div className="settings-panel board-editor">
+        <h2 className="settings-title">보드 편집</h2>
+        {loadError && (
+          <p className="settings-error">
+            {loadError} — 기본 보드를 보여주고 있습니다. 저장하면 파일을 새로 씁니다.
+          </p>
+        )}
+
+        <div className="board-editor-crumbs">
+          {crumbs.map((label, i) => (
+            <button key={i} onClick={() => open(path.slice(0, i))} disabled={i === path.length}>
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="board-editor-body">
+          <ol className="board-editor-list">
+            {level.map((n, i) => (
+              <li key={n.id} className={selected === i ? "selected" : undefined}>
+                <button className="board-editor-select" onClick={() => setSelected(i)}>
+                  <span className="board-editor-label">
+                    {n.emergency && "⚠ "}
+                    {n.label || "(빈 글자)"}
+                  </span>
+                  <span className="board-editor-kind">
+                    {n.children ? `카테고리 · ${n.children.length}개` : "문구"}
+                  </span>
+                </button>
+                {n.children && <button onClick={() => open([...path, i])}>열기</button>}
+                <button onClick={() => move(i, -1)} disabled={i === 0}>
+                  ↑
+                </button>
+                <button onClick={() => move(i, 1)} disabled={i === level.length - 1}>
+                  ↓
+                </button>
+                <button onClick={() => remove(i)}>삭제</button>
+              </li>
+            ))}
+          </ol>
+
+          {/* 미리보기 — 환자에게 보이는 화면 모양 */}
+          <div
+            className="board-preview"
+            style={{ gridTemplateColumns: `repeat(${Math.max(previewCols, 1)}, 1fr)` }}
+          >
+            {path.length > 0 && <div className="board-preview-button back">← 뒤로</div>}
+            {level.map((n, i) => (
+              <div
+                key={n.id}
+                className={`board-preview-button${n.emergency ? " emergency" : ""}${
+                  selected === i ? " selected" : ""
+                }`}
+                style={n.color ? { background: n.color } : undefined}
+                onClick={() => setSelected(i)}
+              >
+                {n.label}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="settings-actions board-editor-add">
+          <button onClick={() => addNode(false)}>문구 추가</button>
+          <button onClick={() => addNode(true)}>카테고리 추가</button>
+        </div>
+
+        {node && (
+          <>
+            <label className="settings-field">
+              <span>버튼 글자</span>
+              <input
+                type="text"
+                value={node.label}
+                maxLength={BOARD_MAX_LABEL_LENGTH}
+                onChange={(e) => updateNode({ label: e.target.value })}
+              />
+            </label>
+            {!node.children && (
+              <label className="settings-field">
+                <span>말할 문장</span>
+                <input
+                  type="text"
+                  value={node.speech ?? ""}
+                  placeholder={node.label}
+                  onChange={(e) => updateNode({ speech: e.target.value || undefined })}
+                />
+              </label>
+            )}
+            <div className="settings-field">
+              <span>버튼 색</span>
+              <input
+                type="color"
+                value={node.color ?? DEFAULT_COLOR}
+                onChange={(e) => updateNode({ color: e.target.value })}
+              />
+              <button onClick={() => updateNode({ color: undefined })} disabled={!node.color}>
+                기본색
+              </button>
+            </div>
+            <label className="settings-field">
+              <span>긴급 (빨간 테두리)</span>
+              <input
+                type="checkbox"
+                checked={node.emergency ?? false}
+                onChange={(e) => updateNode({ emergency: e.target.checked || undefined })}
+              />
+            </label>
+          </>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="settings-error board-editor-errors">
+            {errors.map((err, i) => (
+              <li key={i}>{err}</li>
+            ))}
+          </ul>
+        )}
+        {saveError && <p className="settings-error">{saveError}</p>}
+
+        <div className="settings-actions">
+          <button onClick={resetToDefault}>기본 보드로</button>
+          <button onClick={onClose}>닫기 (Esc)</button>
+          <button className="primary" onClick={handleSave} disabled={errors.length > 0 || saving}>
+            저장
+          </button>
+        </div>
+        <p className="settings-hint">
+          카테고리는 버튼을 고르면 하위 화면으로 들어가고, 문구는 고르면 소리 내어 말합니다. 말할 문장을
+          비워 두면 버튼 글자를 그대로 읽습니다 (예: 글자 "물", 문장 "물 좀 주세요"). 저장한 보드는
+          사용자 데이터 폴더의 board.json에 보관되어 앱을 다시 설치하지 않아도 유지됩니다.
+        </p>
+      </div>
+    </div>
+  );
+}
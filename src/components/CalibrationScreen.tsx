@@ -1,11 +1,55 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { FRAMES_PER_POINT, CALIBRATION_SETTLE_FRAMES, CALIBRATION_GRID_ROWS, CALIBRATION_GRID_COLS, EAR_THRESHOLD } from "../config";
+import {
+  FRAMES_PER_POINT,
+  CALIBRATION_SETTLE_FRAMES,
+  CALIBRATION_GRID_ROWS,
+  CALIBRATION_GRID_COLS,
+  EAR_BASELINE_FRAMES,
+  CALIBRATION_REDO_MAX_ATTEMPTS,
+  AUTO_CALIB_SETTLE_MS,
+  AUTO_FIXATION_FRAMES,
+  AUTO_FIXATION_MAX_STD,
+  AUTO_POINT_TIMEOUT_MS,
+  AUTO_MAX_PROMPTS,
+  AUTO_BASELINE_DELAY_MS,
+} from "../config";
 import type { TrackerState } from "../tracking/useTracker";
-import { GazeMapper, type CalibrationSample, type GazeFeatures } from "../tracking/GazeMapper";
+import {
+  GazeMapper,
+  type CalibrationDiagnostics,
+  type CalibrationSample,
+  type GazeFeatures,
+} from "../tracking/GazeMapper";
+import { measureEarBaseline, type EarBaseline } from "../tracking/EarBaseline";
+import { badCalibrationPoints, mergeSamples } from "../tracking/validation";
+import { speak } from "../speech";
 
 interface Props {
   trackerState: TrackerState;
-  onComplete: (samples: CalibrationSample[]) => void;
+  notice?: string | null; // 보호자 안내 (예: 이전 캘리브레이션을 쓸 수 없는 이유)
+  auto?: boolean; // Space 없이 시선 고정을 감지해 자동 수집 (음성 안내)
+  // 지정 시 눈 기준 측정 없이 redoPoints만 다시 수집해 baseSamples에 병합
+  baseSamples?: CalibrationSample[];
+  redoPoints?: { x: number; y: number }[];
+  onBaseline: (baseline: EarBaseline) => void;
+  /** 샘플로 피팅 → 진단 (실패 시 null) */
+  fit: (samples: CalibrationSample[]) => CalibrationDiagnostics | null;
+  onComplete: (samples: CalibrationSample[], ok: boolean) => void;
+}
+
+/** 베이스라인(눈 뜸 → 눈 감음) 측정 후 포인트 캘리브레이션 */
+type Phase = "open" | "closed" | "points";
+
+/** 자동 모드: 창 안의 홍채 비율이 충분히 안정적이면 시선 고정 */
+function isFixation(window: GazeFeatures[]): boolean {
+  const std = (vals: number[]) => {
+    const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
+    return Math.sqrt(vals.reduce((a, v) => a + (v - mean) ** 2, 0) / vals.length);
+  };
+  return (
+    std(window.map((f) => f.rx)) <= AUTO_FIXATION_MAX_STD &&
+    std(window.map((f) => f.ry)) <= AUTO_FIXATION_MAX_STD
+  );
 }
 
 const MARGIN = 0.05; // 5% from edges (10%→5%: 가장자리 커버리지 향상)
@@ -28,29 +72,152 @@ function generatePoints(): { x: number; y: number }[] {
   return points;
 }
 
-export function CalibrationScreen({ trackerState, onComplete }: Props) {
-  const [points] = useState(generatePoints);
+export function CalibrationScreen({
+  trackerState,
+  notice,
+  auto = false,
+  baseSamples,
+  redoPoints,
+  onBaseline,
+  fit,
+  onComplete,
+}: Props) {
+  const [points, setPoints] = useState(() => redoPoints ?? generatePoints());
+  const [phase, setPhase] = useState<Phase>(redoPoints ? "points" : "open");
+  const [redoAttempt, setRedoAttempt] = useState(redoPoints ? 1 : 0);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [collecting, setCollecting] = useState(false);
   const frameBufferRef = useRef<GazeFeatures[]>([]);
-  const samplesRef = useRef<CalibrationSample[]>([]);
+  const earBufferRef = useRef<{ open: number[]; closed: number[] }>({ open: [], closed: [] });
+  const [baselineFailed, setBaselineFailed] = useState(false);
+  const samplesRef = useRef<CalibrationSample[]>([]); // 이번 라운드에서 수집한 샘플
+  const keptSamplesRef = useRef<CalibrationSample[]>(baseSamples ?? []); // 이전 라운드까지 병합된 샘플
   const doneRef = useRef(false);
+  // 자동 모드: 현재 목표점 표시 시각, 음성 안내 횟수, 고정 판정 창
+  const autoRef = useRef({ shownAt: 0, prompts: 0, window: [] as GazeFeatures[] });
+
+  /**
+   * 라운드 종료: 병합 → 피팅 → 잔차가 큰 포인트가 남아 있으면 그 포인트만 다시 보여줌
+   * (CALIBRATION_REDO_MAX_ATTEMPTS회까지)
+   */
+  const finishRound = useCallback(
+    (roundSamples: CalibrationSample[]) => {
+      const merged =
+        keptSamplesRef.current.length > 0
+          ? mergeSamples(keptSamplesRef.current, roundSamples)
+          : roundSamples;
+      keptSamplesRef.current = merged;
+
+      const diagnostics = fit(merged);
+      const bad = diagnostics ? badCalibrationPoints(merged, diagnostics) : [];
+      if (!diagnostics || bad.length === 0 || redoAttempt >= CALIBRATION_REDO_MAX_ATTEMPTS) {
+        doneRef.current = true;
+        onComplete(merged, diagnostics !== null);
+        return;
+      }
+
+      console.log(`[Calibration] 오차가 큰 포인트 ${bad.length}개 재수집 (${redoAttempt + 1}/${CALIBRATION_REDO_MAX_ATTEMPTS})`);
+      samplesRef.current = [];
+      setPoints(bad);
+      setCurrentIndex(0);
+      setRedoAttempt(redoAttempt + 1);
+    },
+    [fit, onComplete, redoAttempt]
+  );
+
+  const advance = useCallback(() => {
+    const nextIndex = currentIndex + 1;
+    if (nextIndex >= points.length) {
+      finishRound(samplesRef.current);
+    } else {
+      setCurrentIndex(nextIndex);
+    }
+  }, [currentIndex, points, finishRound]);
+
+  // 자동 모드 — 눈 기준 측정: 음성 안내 후 잠시 뒤 수집 시작
+  useEffect(() => {
+    if (!auto || phase === "points" || collecting) return;
+    speak(phase === "open" ? "화면을 편하게 바라봐 주세요" : "눈을 감아 주세요");
+    const timer = setTimeout(() => {
+      earBufferRef.current[phase] = [];
+      setCollecting(true);
+    }, AUTO_BASELINE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [auto, phase, collecting]);
+
+  // 자동 모드 — 목표점이 바뀔 때마다 타이머/고정 창 초기화
+  useEffect(() => {
+    if (!auto || phase !== "points") return;
+    autoRef.current = { shownAt: performance.now(), prompts: 0, window: [] };
+    if (currentIndex === 0) speak("빨간 점을 차례로 바라봐 주세요");
+  }, [auto, phase, currentIndex, points]);
+
+  // 자동 모드 — 시선 고정 감지 → 수집 시작, 오래 안 보면 음성 안내 후 건너뜀
+  useEffect(() => {
+    if (!auto || phase !== "points" || collecting || doneRef.current) return;
+    const a = autoRef.current;
+    const waited = performance.now() - a.shownAt - AUTO_CALIB_SETTLE_MS;
+    if (waited < 0) return;
+
+    const features = trackerState.features;
+    if (features && trackerState.faceDetected && trackerState.ear >= trackerState.earThresholds.blink) {
+      a.window.push(features);
+      if (a.window.length > AUTO_FIXATION_FRAMES) a.window.shift();
+      if (a.window.length === AUTO_FIXATION_FRAMES && isFixation(a.window)) {
+        frameBufferRef.current = [];
+        setCollecting(true);
+        return;
+      }
+    }
+
+    if (waited > AUTO_POINT_TIMEOUT_MS * (a.prompts + 1)) {
+      if (a.prompts < AUTO_MAX_PROMPTS) {
+        a.prompts++;
+        speak(trackerState.faceDetected ? "빨간 점을 바라봐 주세요" : "얼굴이 보이지 않아요. 화면 쪽을 봐 주세요");
+      } else {
+        console.warn(`[Calibration] 포인트 ${currentIndex + 1} 시간 초과 — 건너뜀`);
+        advance();
+      }
+    }
+  }, [auto, phase, collecting, trackerState, currentIndex, advance]);
+
+  // Baseline: 눈 뜸/감음 EAR 수집 → 환자별 임계값
+  useEffect(() => {
+    if (!collecting || phase === "points" || !trackerState.faceDetected) return;
+
+    const buffer = earBufferRef.current[phase];
+    buffer.push(trackerState.ear);
+    if (buffer.length < EAR_BASELINE_FRAMES) return;
+
+    setCollecting(false);
+    if (phase === "open") {
+      setPhase("closed");
+      return;
+    }
+    if (auto) speak("눈을 떠 주세요");
+    const baseline = measureEarBaseline(earBufferRef.current.open, earBufferRef.current.closed);
+    if (baseline) onBaseline(baseline);
+    else console.warn("[Baseline] 눈 뜸/감음 EAR 차이가 작아 기존 임계값을 유지합니다");
+    setBaselineFailed(!baseline);
+    setPhase("points");
+  }, [auto, collecting, phase, trackerState, onBaseline]);
 
   // Collect frames while in collecting mode
   useEffect(() => {
-    // 실제 깜빡임(EAR < 0.21)만 건너뜀
-    // (gaze freeze 임계값 0.26은 캘리브레이션에 너무 보수적 → 프레임 수집 지연 원인)
-    if (!collecting || !trackerState.faceDetected || trackerState.ear < EAR_THRESHOLD) return;
-
-    frameBufferRef.current.push({
-      rx: trackerState.irisRx,
-      ry: trackerState.irisRy,
-      hx: trackerState.headX,
-      hy: trackerState.headY,
-      nx: trackerState.noseX,
-      ny: trackerState.noseY,
-      ey: trackerState.eyeLidOpen,
-    });
+    // 실제 깜빡임(환자별 blink 임계값 미만)만 건너뜀
+    // (gaze freeze 임계값은 캘리브레이션에 너무 보수적 → 프레임 수집 지연 원인)
+    const features = trackerState.features;
+    if (
+      !collecting ||
+      phase !== "points" ||
+      !features ||
+      !trackerState.faceDetected ||
+      trackerState.ear < trackerState.earThresholds.blink
+    ) {
+      return;
+    }
+
+    frameBufferRef.current.push(features);
 
     if (frameBufferRef.current.length >= FRAMES_PER_POINT) {
       // Clean frames: drop settle period + remove outliers
@@ -61,32 +228,27 @@ export function CalibrationScreen({ trackerState, onComplete }: Props) {
 
       samplesRef.current.push({
         ...cleaned,
+        ...GazeMapper.eyeJitter(frameBufferRef.current, CALIBRATION_SETTLE_FRAMES),
         screenX: points[currentIndex].x,
         screenY: points[currentIndex].y,
       });
 
       frameBufferRef.current = [];
       setCollecting(false);
-
-      const nextIndex = currentIndex + 1;
-      if (nextIndex >= points.length) {
-        doneRef.current = true;
-        onComplete(samplesRef.current);
-      } else {
-        setCurrentIndex(nextIndex);
-      }
+      advance();
     }
-  }, [collecting, trackerState, currentIndex, points, onComplete]);
+  }, [collecting, phase, trackerState, currentIndex, points, advance]);
 
   // Space key handler
   const handleSpace = useCallback(
     (e: KeyboardEvent) => {
-      if (e.code !== "Space" || collecting || doneRef.current) return;
+      if (e.code !== "Space" || auto || collecting || doneRef.current) return;
       e.preventDefault();
       frameBufferRef.current = [];
+      if (phase !== "points") earBufferRef.current[phase] = [];
       setCollecting(true);
     },
-    [collecting]
+    [auto, collecting, phase]
   );
 
   useEffect(() => {
@@ -102,13 +264,37 @@ export function CalibrationScreen({ trackerState, onComplete }: Props) {
     );
   }
 
+  if (phase !== "points") {
+    const count = earBufferRef.current[phase].length;
+    return (
+      <div className="calibration-screen">
+        <p className="calibration-instruction">
+          {collecting
+            ? `측정 중... (${count}/${EAR_BASELINE_FRAMES}) ${phase === "open" ? "눈을 편하게 뜬 채로" : "눈을 감은 채로"} 있어 주세요`
+            : auto
+              ? phase === "open"
+                ? "화면을 편하게 바라봐 주세요"
+                : "눈을 감아 주세요"
+              : phase === "open"
+              ? "보호자: 환자가 눈을 편하게 뜨고 화면을 보면 Space를 누르세요"
+              : "보호자: 환자가 눈을 감으면 Space를 누르세요"}
+        </p>
+        <p className="calibration-progress">
+          눈 기준 측정 {phase === "open" ? 1 : 2} / 2
+        </p>
+        {notice && <p className="calibration-notice">{notice}</p>}
+      </div>
+    );
+  }
+
   const point = points[currentIndex];
 
   return (
     <div className="calibration-screen">
       {/* Calibration dot */}
       <div
-        className={`calibration-dot ${collecting ? "collecting" : ""}`}
+        key={auto ? `${redoAttempt}-${currentIndex}` : undefined}
+        className={`calibration-dot ${auto ? "auto" : ""} ${collecting ? "collecting" : ""}`}
         style={{ left: point.x, top: point.y }}
       >
         <div className="calibration-dot-inner" />
@@ -118,10 +304,14 @@ export function CalibrationScreen({ trackerState, onComplete }: Props) {
       <p className="calibration-instruction">
         {collecting
           ? `수집 중... (${frameBufferRef.current.length}/${FRAMES_PER_POINT}) 환자는 점을 계속 바라봐 주세요`
-          : "보호자: 환자가 점을 바라보면 Space를 누르세요"}
+          : auto
+            ? "점을 바라봐 주세요 — 시선이 멈추면 자동으로 수집합니다"
+            : "보호자: 환자가 점을 바라보면 Space를 누르세요"}
       </p>
       <p className="calibration-progress">
+        {redoAttempt > 0 && `오차가 큰 점 다시 보기 (${redoAttempt}/${CALIBRATION_REDO_MAX_ATTEMPTS}) · `}
         포인트 {currentIndex + 1} / {points.length}
+        {baselineFailed && " · 눈 감음 측정 실패 — 기본 임계값 사용"}
       </p>
     </div>
   );
@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import { CAMERA_RESOLUTIONS, CAMERA_FRAME_RATES } from "../config";
+import { listCameras, type CameraSettings } from "../tracking/cameraSettings";
+
+interface Props {
+  current: CameraSettings;
+  onApply: (settings: CameraSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+/** 보호자용 카메라 선택 화면 (마우스/키보드 조작) */
+export function CameraSettingsScreen({ current, onApply, onClose }: Props) {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [settings, setSettings] = useState(current);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 장치 목록 — 꽂거나 뽑으면 갱신
+  useEffect(() => {
+    const refresh = () => listCameras().then(setCameras);
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, []);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.code === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const handleApply = async () => {
+    setApplying(true);
+    setError(null);
+    try {
+      await onApply(settings);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "카메라를 열 수 없습니다");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const resolutionValue = `${settings.width}x${settings.height}`;
+
+  return (
+    <div className="settings-screen">
+      <div className="settings-panel">
+        <h2 className="settings-title">카메라 설정</h2>
+
+        <label className="settings-field">
+          <span>카메라</span>
+          <select
+            value={settings.deviceId ?? ""}
+            onChange={(e) => {
+              const device = cameras.find((d) => d.deviceId === e.target.value);
+              setSettings({
+                ...settings,
+                deviceId: device?.deviceId ?? null,
+                label: device?.label ?? null,
+              });
+            }}
+          >
+            <option value="">기본 카메라</option>
+            {cameras.map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>
+                {d.label || `카메라 ${i + 1}`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="settings-field">
+          <span>해상도</span>
+          <select
+            value={resolutionValue}
+            onChange={(e) => {
+              const [width, height] = e.target.value.split("x").map(Number);
+              setSettings({ ...settings, width, height });
+            }}
+          >
+            {CAMERA_RESOLUTIONS.map((r) => (
+              <option key={`${r.width}x${r.height}`} value={`${r.width}x${r.height}`}>
+                {r.width} x {r.height}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="settings-field">
+          <span>프레임 속도</span>
+          <select
+            value={settings.frameRate}
+            onChange={(e) => setSettings({ ...settings, frameRate: Number(e.target.value) })}
+          >
+            {CAMERA_FRAME_RATES.map((fps) => (
+              <option key={fps} value={fps}>
+                {fps} fps
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {error && <p className="settings-error">{error}</p>}
+
+        <div className="settings-actions">
+          <button onClick={onClose} disabled={applying}>
+            닫기 (Esc)
+          </button>
+          <button className="primary" onClick={handleApply} disabled={applying}>
+            {applying ? "적용 중..." : "적용"}
+          </button>
+        </div>
+        <p className="settings-hint">선택한 카메라는 저장되어 다음 실행 시 자동으로 사용됩니다.</p>
+      </div>
+    </div>
+  );
+}
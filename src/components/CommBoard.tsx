@@ -1,19 +1,50 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import {
-  BOARD_CATEGORIES,
-  SELECTION_COOLDOWN_SEC,
-  HIT_TEST_PADDING_PX,
-  HYSTERESIS_EXTRA_PX,
-  SELECT_FREEZE_MS,
-  EYE_CLOSE_SELECT_SEC,
-} from "../config";
+import { EYE_CLOSE_SELECT_SEC } from "../config";
 import type { TrackerState } from "../tracking/useTracker";
+import type { SelectionMode } from "../tracking/selectionStrategies";
+import { BoardSelector } from "../tracking/BoardSelector";
+import { speak } from "../speech";
+import { nodesAt, pathLabels, type BoardNode } from "../board";
+
+/** 현재 화면 버튼들의 영역 */
+function buttonRects(buttons: (HTMLDivElement | null)[]) {
+  return buttons.map((el) => el?.getBoundingClientRect() ?? null);
+}
+
+/** 응시 선택 진행률 — 호버 중인 버튼 모서리의 원형 링 */
+function DwellRing({ progress, armed }: { progress: number; armed: boolean }) {
+  const r = 26;
+  const circumference = 2 * Math.PI * r;
+  return (
+    <svg className={`dwell-ring${armed ? " armed" : ""}`} width={64} height={64} viewBox="0 0 64 64">
+      <circle className="dwell-ring-track" cx={32} cy={32} r={r} />
+      <circle
+        className="dwell-ring-fill"
+        cx={32}
+        cy={32}
+        r={r}
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - progress)}
+      />
+    </svg>
+  );
+}
 
 interface Props {
   trackerState: TrackerState;
+  board: BoardNode[]; // 첫 화면 버튼 (board.json 또는 기본 보드)
+  selectionMode?: SelectionMode; // 환자 프로필의 선택 방식 (기본 eye-close)
   onSelect: (label: string) => void;
+  onDriftCorrect?: () => void; // 메인 화면 "시선 다시 맞추기" 버튼 (환자가 직접 보정)
+  onRecalibrate?: () => void; // 자세가 크게 바뀌었을 때 메인 화면에 나타나는 전체 재캘리브레이션 버튼
+  onConfirmTarget?: (center: { x: number; y: number }) => void; // 선택된 버튼 중심 (암묵적 재캘리브레이션)
+  onBack?: () => void; // "뒤로" 선택 — 직전 선택이 잘못되었을 가능성
 }
 
+const DRIFT_BUTTON_LABEL = "👁 시선 다시 맞추기";
+const RECALIBRATE_BUTTON_LABEL = "🔄 처음부터 다시 맞추기";
+const POSITION_PROMPT = "자세가 바뀌었어요 — 시선을 다시 맞춰 주세요";
+
 // --- Web Audio helpers (no external files) ---
 const audioCtx = new AudioContext();
 
@@ -41,60 +72,105 @@ function playSelectChime() {
   osc.stop(audioCtx.currentTime + 0.25);
 }
 
-export function CommBoard({ trackerState, onSelect }: Props) {
+export function CommBoard({
+  trackerState,
+  board,
+  selectionMode = "eye-close",
+  onSelect,
+  onDriftCorrect,
+  onRecalibrate,
+  onConfirmTarget,
+  onBack,
+}: Props) {
   const buttonRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const selectorRef = useRef(new BoardSelector(selectionMode));
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const [lastMessage, setLastMessage] = useState("");
-  const [currentCategory, setCurrentCategory] = useState<number | null>(null);
+  const [path, setPath] = useState<number[]>([]); // 첫 화면부터 들어온 카테고리 인덱스
+
+  // 보호자가 보드를 고치면 첫 화면으로
+  useEffect(() => {
+    setPath([]);
+    setHoveredIndex(null);
+    selectorRef.current.clearHover();
+    buttonRefs.current = [];
+  }, [board]);
 
-  const lastSelectionRef = useRef(0);
-  const selectFreezeUntilRef = useRef(0);
+  const atRoot = path.length === 0;
+  const screenNodes = nodesAt(board, path) ?? board;
+
+  const [dwellProgress, setDwellProgress] = useState(0);
+  const [awaitingBlink, setAwaitingBlink] = useState(false);
+
+  useEffect(() => {
+    selectorRef.current.setMode(selectionMode);
+  }, [selectionMode]);
 
   const triggerSelect = useCallback(
     (index: number) => {
-      const now = performance.now();
-      if (now - lastSelectionRef.current < SELECTION_COOLDOWN_SEC * 1000) return;
-      lastSelectionRef.current = now;
-      selectFreezeUntilRef.current = now + SELECT_FREEZE_MS;
+      const isBack = !atRoot && index === 0;
+      if (isBack) onBack?.();
+
+      // 문구/카테고리 버튼만 학습 후보 (보정/재캘리브레이션 버튼은 그 직후 매핑이 바뀜)
+      const confirmTarget = () => {
+        const rect = buttonRefs.current[index]?.getBoundingClientRect();
+        if (rect) {
+          onConfirmTarget?.({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+        }
+      };
 
-      if (currentCategory === null) {
-        // 메인 화면: 카테고리 선택 → 하위 화면으로 이동
+      const enter = (next: number[]) => {
         playSelectChime();
-        setCurrentCategory(index);
+        setPath(next);
         setHoveredIndex(null);
+        selectorRef.current.clearHover();
         setSelectedIndex(null);
         buttonRefs.current = [];
+      };
+
+      if (atRoot && index === screenNodes.length) {
+        // 첫 화면 하단: 드리프트 보정
+        playSelectChime();
+        onDriftCorrect?.();
+      } else if (atRoot && index === screenNodes.length + 1) {
+        // 자세 변화 제안: 전체 재캘리브레이션
+        playSelectChime();
+        onRecalibrate?.();
+      } else if (isBack) {
+        // 뒤로가기 → 한 단계 위 화면
+        enter(path.slice(0, -1));
       } else {
-        if (index === 0) {
-          // 뒤로가기
-          playSelectChime();
-          setCurrentCategory(null);
-          setHoveredIndex(null);
-          setSelectedIndex(null);
-          buttonRefs.current = [];
+        const nodeIndex = atRoot ? index : index - 1;
+        const node = screenNodes[nodeIndex];
+        if (!node) return;
+        confirmTarget();
+        if (node.children) {
+          // 카테고리 → 하위 화면으로 이동
+          enter([...path, nodeIndex]);
         } else {
-          // 항목 선택 → TTS 발화
-          const cat = BOARD_CATEGORIES[currentCategory];
-          const label = cat.items[index - 1];
+          // 문구 선택 → TTS 발화 (버튼 글자와 말할 문장이 다를 수 있음)
           setSelectedIndex(index);
-          setLastMessage(label);
-          onSelect(label);
+          setLastMessage(node.label);
+          onSelect(node.label);
 
           playSelectChime();
 
-          const utterance = new SpeechSynthesisUtterance(label);
-          utterance.lang = "ko-KR";
-          utterance.rate = 0.9;
-          speechSynthesis.speak(utterance);
+          speak(node.speech ?? node.label);
 
           setTimeout(() => setSelectedIndex(null), 800);
         }
       }
     },
-    [onSelect, currentCategory]
+    [onSelect, onDriftCorrect, onRecalibrate, onConfirmTarget, onBack, atRoot, path, screenNodes]
   );
 
+  // 자세가 크게 바뀐 채 유지되면 메인 화면에서 보정을 제안 (진입 시 한 번 음성 안내)
+  const positionFar = trackerState.position?.level === "far" && !!onDriftCorrect;
+  useEffect(() => {
+    if (positionFar) speak(POSITION_PROMPT.replace(" — ", ". "));
+  }, [positionFar]);
+
   // 호버 진입 시 틱 사운드
   useEffect(() => {
     if (hoveredIndex !== null) {
@@ -102,119 +178,134 @@ export function CommBoard({ trackerState, onSelect }: Props) {
     }
   }, [hoveredIndex]);
 
-  // Hit test — 히스테리시스 적용 시선 히트 테스트
+  // 호버/선택 판정 (BoardSelector) — 추적 프레임마다 한 번, 선택 순간 예측이 불확실했으면 거부
+  const triggerSelectRef = useRef(triggerSelect);
+  triggerSelectRef.current = triggerSelect;
   useEffect(() => {
-    // 선택 프리즈 중이면 호버 감지 중단
-    if (performance.now() < selectFreezeUntilRef.current) return;
-
-    if (!trackerState.gazeValid) {
-      setHoveredIndex(null);
-      return;
+    const result = selectorRef.current.update(
+      trackerState,
+      buttonRects(buttonRefs.current),
+      performance.now()
+    );
+    setHoveredIndex(result.hovered);
+    setDwellProgress(result.progress.dwell);
+    setAwaitingBlink(result.progress.awaitingBlink);
+    if (result.rejected) {
+      console.log(`[Board] 선택 거부 — 시선 오차 반경 ${trackerState.gazeErrorPx.toFixed(0)}px`);
     }
-
-    const { gazeX, gazeY } = trackerState;
-    const enterPad = HIT_TEST_PADDING_PX;
-    const exitPad = HIT_TEST_PADDING_PX + HYSTERESIS_EXTRA_PX;
-
-    setHoveredIndex((prev) => {
-      // 현재 호버된 버튼이 있으면 exit zone으로 체크
-      if (prev !== null) {
-        const el = buttonRefs.current[prev];
-        if (el) {
-          const rect = el.getBoundingClientRect();
-          if (
-            gazeX >= rect.left - exitPad &&
-            gazeX <= rect.right + exitPad &&
-            gazeY >= rect.top - exitPad &&
-            gazeY <= rect.bottom + exitPad
-          ) {
-            return prev; // 아직 exit zone 안 → 유지
-          }
-        }
-      }
-
-      // 새 버튼 진입 체크 (enter zone)
-      for (let i = 0; i < buttonRefs.current.length; i++) {
-        const el = buttonRefs.current[i];
-        if (!el) continue;
-        const rect = el.getBoundingClientRect();
-        if (
-          gazeX >= rect.left - enterPad &&
-          gazeX <= rect.right + enterPad &&
-          gazeY >= rect.top - enterPad &&
-          gazeY <= rect.bottom + enterPad
-        ) {
-          return i;
-        }
-      }
-
-      return null;
-    });
+    if (result.selected !== null) triggerSelectRef.current(result.selected);
   }, [trackerState]);
 
-  // 눈 감아서 선택
-  useEffect(() => {
-    if (trackerState.eyeCloseSelect && hoveredIndex !== null) {
-      triggerSelect(hoveredIndex);
-    }
-  }, [trackerState.eyeCloseSelect, hoveredIndex, triggerSelect]);
-
   // 현재 호버 중인 라벨 계산
   const getHoveredLabel = (): string | null => {
     if (hoveredIndex === null) return null;
-    if (currentCategory === null) {
-      return BOARD_CATEGORIES[hoveredIndex]?.name ?? null;
+    if (atRoot) {
+      if (hoveredIndex === screenNodes.length) return DRIFT_BUTTON_LABEL;
+      if (hoveredIndex === screenNodes.length + 1) return RECALIBRATE_BUTTON_LABEL;
+      return screenNodes[hoveredIndex]?.label ?? null;
     }
     if (hoveredIndex === 0) return "← 뒤로";
-    const cat = BOARD_CATEGORIES[currentCategory];
-    return cat.items[hoveredIndex - 1] ?? null;
+    return screenNodes[hoveredIndex - 1]?.label ?? null;
   };
 
   const hoveredLabel = getHoveredLabel();
 
-  // 메인 화면: 2x2 카테고리 그리드
-  if (currentCategory === null) {
+  // 눈 감기: 감은 시간 진행 막대, 응시 + 깜빡임: 깜빡임 대기 안내
+  const selectionIndicator =
+    selectionMode === "eye-close" && trackerState.eyesClosed && hoveredIndex !== null ? (
+      <div className="eye-close-indicator">
+        <div
+          className="eye-close-fill"
+          style={{
+            width: `${Math.min(trackerState.eyeClosedSec / EYE_CLOSE_SELECT_SEC, 1) * 100}%`,
+          }}
+        />
+        <span className="eye-close-text">
+          눈 감는 중... {trackerState.eyeClosedSec.toFixed(1)}s
+        </span>
+      </div>
+    ) : awaitingBlink ? (
+      <div className="eye-close-indicator">
+        <span className="eye-close-text">눈을 한 번 깜빡이면 선택합니다</span>
+      </div>
+    ) : null;
+
+  const dwellRing = (index: number) =>
+    hoveredIndex === index && dwellProgress > 0 ? (
+      <DwellRing progress={dwellProgress} armed={awaitingBlink} />
+    ) : null;
+
+  const nodeButton = (node: BoardNode, index: number, extraClass = "") => {
+    let className = `comm-button${extraClass}`;
+    if (node.emergency) className += " emergency";
+    if (node.color) className += " colored";
+    if (selectedIndex === index) className += " selected";
+    else if (hoveredIndex === index) className += " hovered";
+
+    return (
+      <div
+        key={node.id}
+        ref={(el) => { buttonRefs.current[index] = el; }}
+        className={className}
+        style={node.color ? { background: node.color } : undefined}
+      >
+        <span className="comm-button-label">{node.label}</span>
+        {dwellRing(index)}
+      </div>
+    );
+  };
+
+  // 첫 화면: 카테고리 그리드 (2줄) + 시선 보정 버튼
+  if (atRoot) {
     return (
       <div className="comm-board">
         <div
           className="comm-grid"
           style={{
             gridTemplateRows: "repeat(2, 1fr)",
-            gridTemplateColumns: "repeat(2, 1fr)",
+            gridTemplateColumns: `repeat(${Math.ceil(screenNodes.length / 2)}, 1fr)`,
           }}
         >
-          {BOARD_CATEGORIES.map((cat, i) => {
-            let className = "comm-button category-btn";
-            if (cat.emergency) className += " emergency";
-            if (selectedIndex === i) className += " selected";
-            else if (hoveredIndex === i) className += " hovered";
+          {screenNodes.map((node, i) => nodeButton(node, i, " category-btn"))}
+        </div>
 
-            return (
+        {positionFar && <div className="position-prompt">{POSITION_PROMPT}</div>}
+
+        {onDriftCorrect && (
+          <div className="control-row">
+            <div
+              ref={(el) => { buttonRefs.current[screenNodes.length] = el; }}
+              className={`comm-button control-btn${positionFar ? " attention" : ""}${
+                selectedIndex === screenNodes.length
+                  ? " selected"
+                  : hoveredIndex === screenNodes.length
+                    ? " hovered"
+                    : ""
+              }`}
+            >
+              <span className="comm-button-label">{DRIFT_BUTTON_LABEL}</span>
+              {dwellRing(screenNodes.length)}
+            </div>
+            {positionFar && onRecalibrate && (
               <div
-                key={i}
-                ref={(el) => { buttonRefs.current[i] = el; }}
-                className={className}
+                ref={(el) => { buttonRefs.current[screenNodes.length + 1] = el; }}
+                className={`comm-button control-btn attention${
+                  selectedIndex === screenNodes.length + 1
+                    ? " selected"
+                    : hoveredIndex === screenNodes.length + 1
+                      ? " hovered"
+                      : ""
+                }`}
               >
-                <span className="comm-button-label">{cat.name}</span>
+                <span className="comm-button-label">{RECALIBRATE_BUTTON_LABEL}</span>
+                {dwellRing(screenNodes.length + 1)}
               </div>
-            );
-          })}
-        </div>
-
-        {trackerState.eyesClosed && hoveredIndex !== null && (
-          <div className="eye-close-indicator">
-            <div
-              className="eye-close-fill"
-              style={{
-                width: `${Math.min(trackerState.eyeClosedSec / EYE_CLOSE_SELECT_SEC, 1) * 100}%`,
-              }}
-            />
-            <span className="eye-close-text">
-              눈 감는 중... {trackerState.eyeClosedSec.toFixed(1)}s
-            </span>
+            )}
           </div>
         )}
 
+        {selectionIndicator}
+
         {hoveredLabel && (
           <div className="gaze-target-label">{hoveredLabel}</div>
         )}
@@ -226,14 +317,15 @@ export function CommBoard({ trackerState, onSelect }: Props) {
     );
   }
 
-  // 하위 화면: [← 뒤로] + 항목들
-  const cat = BOARD_CATEGORIES[currentCategory];
-  const buttons = ["← 뒤로", ...cat.items];
-  const cols = Math.ceil(buttons.length / 2);
+  // 하위 화면: [← 뒤로] + 항목들 (하위 카테고리 포함)
+  const cols = Math.ceil((screenNodes.length + 1) / 2);
+  const backClass = `comm-button back-btn${
+    selectedIndex === 0 ? " selected" : hoveredIndex === 0 ? " hovered" : ""
+  }`;
 
   return (
     <div className="comm-board">
-      <div className="comm-category-title">{cat.name}</div>
+      <div className="comm-category-title">{pathLabels(board, path).join(" › ")}</div>
       <div
         className="comm-grid"
         style={{
@@ -241,37 +333,14 @@ export function CommBoard({ trackerState, onSelect }: Props) {
           gridTemplateColumns: `repeat(${cols}, 1fr)`,
         }}
       >
-        {buttons.map((label, i) => {
-          let className = "comm-button";
-          if (i === 0) className += " back-btn";
-          if (selectedIndex === i) className += " selected";
-          else if (hoveredIndex === i) className += " hovered";
-
-          return (
-            <div
-              key={i}
-              ref={(el) => { buttonRefs.current[i] = el; }}
-              className={className}
-            >
-              <span className="comm-button-label">{label}</span>
-            </div>
-          );
-        })}
+        <div ref={(el) => { buttonRefs.current[0] = el; }} className={backClass}>
+          <span className="comm-button-label">← 뒤로</span>
+          {dwellRing(0)}
+        </div>
+        {screenNodes.map((node, i) => nodeButton(node, i + 1))}
       </div>
 
-      {trackerState.eyesClosed && hoveredIndex !== null && (
-        <div className="eye-close-indicator">
-          <div
-            className="eye-close-fill"
-            style={{
-              width: `${Math.min(trackerState.eyeClosedSec / EYE_CLOSE_SELECT_SEC, 1) * 100}%`,
-            }}
-          />
-          <span className="eye-close-text">
-            눈 감는 중... {trackerState.eyeClosedSec.toFixed(1)}s
-          </span>
-        </div>
-      )}
+      {selectionIndicator}
 
       {hoveredLabel && (
         <div className="gaze-target-label">{hoveredLabel}</div>
@@ -1,10 +1,16 @@
 import type { TrackerState } from "../tracking/useTracker";
+import type { CalibrationDiagnostics } from "../tracking/GazeMapper";
+import { headMotionLabel } from "../tracking/headPose";
+import { distanceRangeLabel } from "../tracking/viewingDistance";
+import { POSITION_FEATURE_LABELS } from "../tracking/PositionMonitor";
 
 interface Props {
   state: TrackerState;
+  diagnostics: CalibrationDiagnostics | null; // 캘리브레이션 중 머리 움직임 비교용
 }
 
-export function DebugPanel({ state }: Props) {
+export function DebugPanel({ state, diagnostics }: Props) {
+  const pose = state.headPose;
   const rows = [
     { label: "FPS", value: state.fps.toFixed(1) },
     {
@@ -13,17 +19,65 @@ export function DebugPanel({ state }: Props) {
       color: state.faceDetected ? "#00ff88" : "#ff4444",
     },
     { label: "EAR", value: state.ear.toFixed(3) },
+    {
+      label: "EAR L/R",
+      value: `${state.leftEar.toFixed(3)} / ${state.rightEar.toFixed(3)}`,
+    },
+    {
+      label: "EAR 기준",
+      value: state.earBaseline
+        ? `뜸 ${state.earBaseline.open.toFixed(3)} / 감음 ${state.earBaseline.closed.toFixed(3)}`
+        : "기본값 (미측정)",
+    },
+    {
+      label: "임계값",
+      value: `깜빡 ${state.earThresholds.blink.toFixed(3)} · 선택 ${state.earThresholds.select.toFixed(3)} · 고정 ${state.earThresholds.freeze.toFixed(3)}`,
+    },
     {
       label: "Iris",
       value: `(${state.irisRx.toFixed(3)}, ${state.irisRy.toFixed(3)})`,
     },
+    {
+      label: "머리 자세",
+      value: pose
+        ? `yaw ${pose.yaw.toFixed(1)}° pitch ${pose.pitch.toFixed(1)}° roll ${pose.roll.toFixed(1)}° · 거리 ${(-pose.tz).toFixed(0)}cm`
+        : "(변환 행렬 없음)",
+    },
+    {
+      label: "머리 움직임",
+      value: `캘리브레이션 ${diagnostics?.headMotion ? headMotionLabel(diagnostics.headMotion) : "-"} / 사용 중 ${state.headMotion ? headMotionLabel(state.headMotion) : "-"}`,
+    },
+    {
+      label: "거리",
+      value: `${state.viewingDistanceCm !== null ? `${state.viewingDistanceCm.toFixed(0)}cm` : "-"} (캘리브레이션 ${diagnostics?.distance ? distanceRangeLabel(diagnostics.distance) : "-"})`,
+      color: state.distanceGuide ? "#ffaa00" : undefined,
+    },
+    {
+      label: "자세 변화",
+      value: state.position
+        ? `${state.position.level} · ${POSITION_FEATURE_LABELS[state.position.feature]} ${state.position.score.toFixed(1)}`
+        : "-",
+      color: state.position && state.position.level !== "ok" ? "#ffaa00" : undefined,
+    },
     {
       label: "Gaze",
       value: state.gazeValid
-        ? `(${state.gazeX.toFixed(0)}, ${state.gazeY.toFixed(0)})`
+        ? `(${state.gazeX.toFixed(0)}, ${state.gazeY.toFixed(0)}) ±${state.gazeErrorPx.toFixed(0)}px`
         : "(not calibrated)",
     },
+    {
+      label: "고정",
+      value: state.fixation
+        ? `(${state.fixation.x.toFixed(0)}, ${state.fixation.y.toFixed(0)}) ${state.fixation.durationMs.toFixed(0)}ms`
+        : "도약 중",
+      color: state.fixation ? "#00ff88" : undefined,
+    },
+    {
+      label: "고정/도약",
+      value: `고정 ${state.fixationStats.fixationCount}회 평균 ${state.fixationStats.meanFixationMs.toFixed(0)}ms · 도약 ${state.fixationStats.saccadeCount}회 평균 ${state.fixationStats.meanSaccadePx.toFixed(0)}px`,
+    },
     { label: "Blinks", value: String(state.blinkCount) },
+    { label: "선택 학습", value: `${state.implicitSamples}개` },
     {
       label: "DblBlink",
       value: state.doubleBlink ? "YES!" : "no",
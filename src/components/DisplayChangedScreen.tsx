@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+import { isFormField } from "../keyboard";
+
+interface Props {
+  reason: string; // 예: "다른 모니터로 이동"
+  onRecalibrate: () => void;
+  onKeep: () => void;
+}
+
+/** 캘리브레이션한 화면과 다른 모니터/창 영역 — 보호자에게 재캘리브레이션 여부 확인 */
+export function DisplayChangedScreen({ reason, onRecalibrate, onKeep }: Props) {
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (isFormField(e.target)) return;
+      if (e.code === "Enter") onRecalibrate();
+      if (e.code === "Escape") onKeep();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onRecalibrate, onKeep]);
+
+  return (
+    <div className="settings-screen">
+      <div className="settings-panel">
+        <h2 className="settings-title">화면이 바뀌었습니다</h2>
+        <p>{reason} — 지금 캘리브레이션은 이 화면에서 정확하지 않을 수 있습니다.</p>
+
+        <div className="settings-actions">
+          <button onClick={onKeep}>계속 사용 (Esc)</button>
+          <button className="primary" onClick={onRecalibrate}>
+            새로 캘리브레이션 (Enter)
+          </button>
+        </div>
+        <p className="settings-hint">
+          같은 모니터에서 해상도나 배율만 바뀐 경우에는 자동으로 맞춰지므로 이 창이 뜨지 않습니다.
+        </p>
+      </div>
+    </div>
+  );
+}
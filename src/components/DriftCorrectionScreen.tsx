@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  DRIFT_POINTS,
+  DRIFT_POINT_COUNT,
+  DRIFT_SETTLE_MS,
+  DRIFT_FRAMES_PER_POINT,
+} from "../config";
+import type { TrackerState } from "../tracking/useTracker";
+import { GazeMapper, type CalibrationSample, type GazeFeatures } from "../tracking/GazeMapper";
+
+interface Props {
+  trackerState: TrackerState;
+  onComplete: (samples: CalibrationSample[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 빠른 드리프트 보정 — 목표점이 차례로 나타나고 자동으로 수집 (환자 혼자서도 가능).
+ * 전체 캘리브레이션과 달리 Space 없이 DRIFT_SETTLE_MS 대기 후 수집 시작.
+ */
+export function DriftCorrectionScreen({ trackerState, onComplete, onCancel }: Props) {
+  const [points] = useState(() =>
+    DRIFT_POINTS.slice(0, DRIFT_POINT_COUNT).map((p) => ({
+      x: p.x * window.innerWidth,
+      y: p.y * window.innerHeight,
+    }))
+  );
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [collecting, setCollecting] = useState(false);
+  const frameBufferRef = useRef<GazeFeatures[]>([]);
+  const samplesRef = useRef<CalibrationSample[]>([]);
+
+  // 목표점 표시 → 대기 → 수집
+  useEffect(() => {
+    frameBufferRef.current = [];
+    setCollecting(false);
+    const timer = setTimeout(() => setCollecting(true), DRIFT_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [currentIndex]);
+
+  useEffect(() => {
+    const features = trackerState.features;
+    if (
+      !collecting ||
+      !features ||
+      !trackerState.faceDetected ||
+      trackerState.ear < trackerState.earThresholds.blink
+    ) {
+      return;
+    }
+
+    frameBufferRef.current.push(features);
+    if (frameBufferRef.current.length < DRIFT_FRAMES_PER_POINT) return;
+
+    samplesRef.current.push({
+      ...GazeMapper.cleanFrames(frameBufferRef.current, 0),
+      screenX: points[currentIndex].x,
+      screenY: points[currentIndex].y,
+    });
+    setCollecting(false);
+
+    if (currentIndex + 1 >= points.length) onComplete(samplesRef.current);
+    else setCurrentIndex(currentIndex + 1);
+  }, [collecting, trackerState, currentIndex, points, onComplete]);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.code === "Escape") onCancel();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onCancel]);
+
+  const point = points[currentIndex];
+
+  return (
+    <div className="calibration-screen">
+      <div
+        className={`calibration-dot ${collecting ? "collecting" : ""}`}
+        style={{ left: point.x, top: point.y }}
+      >
+        <div className="calibration-dot-inner" />
+      </div>
+
+      <p className="calibration-instruction">점을 바라봐 주세요 (시선 보정)</p>
+      <p className="calibration-progress">
+        보정 {currentIndex + 1} / {points.length} · Esc: 취소
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect } from "react";
+import type { FilterSettings } from "../tracking/gazeFilters";
+import type { FilterComparison } from "../tracking/filterComparison";
+
+interface Props {
+  results: FilterComparison[];
+  current: FilterSettings; // 활성 프로필이 사용 중인 필터
+  onApply: (settings: FilterSettings) => void;
+  onClose: () => void;
+}
+
+/** 녹화 세션으로 비교한 시선 필터 결과 — 보호자/개발자가 환자에게 맞는 필터를 고름 */
+export function FilterComparisonScreen({ results, current, onApply, onClose }: Props) {
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.code === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="settings-screen">
+      <div className="settings-panel">
+        <h2 className="settings-title">시선 필터 비교</h2>
+
+        <table className="filter-compare-table">
+          <thead>
+            <tr>
+              <th>필터</th>
+              <th>고정 중 떨림</th>
+              <th>이동 중 지연</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((r) => {
+              const inUse = JSON.stringify(r.settings) === JSON.stringify(current);
+              return (
+                <tr key={r.label}>
+                  <td>{r.label}</td>
+                  <td>{r.fixationJitterPx.toFixed(1)}px</td>
+                  <td>{r.movementLagPx.toFixed(0)}px</td>
+                  <td>
+                    <button onClick={() => onApply(r.settings)} disabled={inUse}>
+                      {inUse ? "사용 중" : "사용"}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="settings-actions">
+          <button onClick={onClose}>닫기 (Esc)</button>
+        </div>
+        <p className="settings-hint">
+          떨림: 시선이 머무는 동안 커서가 프레임마다 움직인 거리 ({results[0]?.fixationFrames ?? 0}
+          프레임). 지연: 시선이 옮겨가는 동안 필터 전 위치와의 거리 ({results[0]?.movementFrames ?? 0}
+          프레임). 둘 다 작을수록 좋습니다. 세부 값은 Ctrl+P 환자 프로필에서 조정합니다.
+        </p>
+      </div>
+    </div>
+  );
+}
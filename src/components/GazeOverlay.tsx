@@ -1,20 +1,34 @@
 interface Props {
   x: number;
   y: number;
+  errorPx: number; // 예측 오차 반경 — 불확실할수록 커서 주변 원이 커짐
   visible: boolean;
 }
 
-export function GazeOverlay({ x, y, visible }: Props) {
+const DOT_RADIUS = 14;
+
+export function GazeOverlay({ x, y, errorPx, visible }: Props) {
   if (!visible) return null;
 
+  const r = Math.max(errorPx, DOT_RADIUS);
   return (
-    <div
-      className="gaze-dot"
-      style={{
-        transform: `translate(${x - 14}px, ${y - 14}px)`,
-      }}
-    >
-      <div className="gaze-dot-inner" />
-    </div>
+    <>
+      <div
+        className="gaze-uncertainty"
+        style={{
+          width: r * 2,
+          height: r * 2,
+          transform: `translate(${x - r}px, ${y - r}px)`,
+        }}
+      />
+      <div
+        className="gaze-dot"
+        style={{
+          transform: `translate(${x - DOT_RADIUS}px, ${y - DOT_RADIUS}px)`,
+        }}
+      >
+        <div className="gaze-dot-inner" />
+      </div>
+    </>
   );
 }
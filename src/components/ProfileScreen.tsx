@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import type { EyeChoice } from "../tracking/GazeMapper";
+import {
+  DEFAULT_FILTER_SETTINGS,
+  FILTER_KIND_LABELS,
+  type FilterKind,
+  type FilterSettings,
+} from "../tracking/gazeFilters";
+import { SELECTION_MODE_LABELS, type SelectionMode } from "../tracking/selectionStrategies";
+import {
+  createProfile,
+  activeProfile,
+  EYE_CHOICE_LABELS,
+  CALIBRATION_METHOD_LABELS,
+  type CalibrationMethod,
+  type ProfileStore,
+} from "../patientProfile";
+
+interface Props {
+  store: ProfileStore;
+  onSave: (store: ProfileStore) => void;
+  onClose: () => void;
+}
+
+/** 보호자용 환자 프로필 화면 — 환자 선택/추가, 사용할 눈 설정 */
+export function ProfileScreen({ store, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState(store);
+  const profile = activeProfile(draft);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.code === "Escape") onClose();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const updateProfile = (patch: Partial<typeof profile>) => {
+    setDraft({
+      ...draft,
+      profiles: draft.profiles.map((p) => (p.id === profile.id ? { ...p, ...patch } : p)),
+    });
+  };
+
+  const filter = profile.filter ?? DEFAULT_FILTER_SETTINGS;
+  const updateFilter = (patch: Partial<FilterSettings>) => {
+    updateProfile({ filter: { ...filter, ...patch } });
+  };
+  // allowZero가 아니면 0 불가 (차단 주파수/잡음이 0이면 커서가 멈추거나 NaN)
+  const filterNumber = (
+    key: keyof Omit<FilterSettings, "kind">,
+    label: string,
+    step: number,
+    allowZero = false
+  ) => (
+    <label className="settings-field">
+      <span>{label}</span>
+      <input
+        type="number"
+        step={step}
+        min={0}
+        value={filter[key]}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value);
+          if (Number.isFinite(v) && (allowZero ? v >= 0 : v > 0)) updateFilter({ [key]: v });
+        }}
+      />
+    </label>
+  );
+
+  const addProfile = () => {
+    const p = createProfile(`환자 ${draft.profiles.length + 1}`);
+    setDraft({ profiles: [...draft.profiles, p], activeId: p.id });
+  };
+
+  const handleSave = () => {
+    onSave({ ...draft, activeId: profile.id });
+    onClose();
+  };
+
+  return (
+    <div className="settings-screen">
+      <div className="settings-panel">
+        <h2 className="settings-title">환자 프로필</h2>
+
+        <label className="settings-field">
+          <span>환자</span>
+          <select
+            value={profile.id}
+            onChange={(e) => setDraft({ ...draft, activeId: e.target.value })}
+          >
+            {draft.profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="settings-field">
+          <span>이름</span>
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => updateProfile({ name: e.target.value })}
+          />
+        </label>
+
+        <label className="settings-field">
+          <span>사용할 눈</span>
+          <select
+            value={profile.eye}
+            onChange={(e) => updateProfile({ eye: e.target.value as EyeChoice })}
+          >
+            {(Object.keys(EYE_CHOICE_LABELS) as EyeChoice[]).map((eye) => (
+              <option key={eye} value={eye}>
+                {EYE_CHOICE_LABELS[eye]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="settings-field">
+          <span>캘리브레이션 방식</span>
+          <select
+            value={profile.calibrationMethod ?? "grid"}
+            onChange={(e) => updateProfile({ calibrationMethod: e.target.value as CalibrationMethod })}
+          >
+            {(Object.keys(CALIBRATION_METHOD_LABELS) as CalibrationMethod[]).map((method) => (
+              <option key={method} value={method}>
+                {CALIBRATION_METHOD_LABELS[method]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="settings-field">
+          <span>선택 방식</span>
+          <select
+            value={profile.selectionMode ?? "eye-close"}
+            onChange={(e) => updateProfile({ selectionMode: e.target.value as SelectionMode })}
+          >
+            {(Object.keys(SELECTION_MODE_LABELS) as SelectionMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {SELECTION_MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="settings-field">
+          <span>시선 필터</span>
+          <select
+            value={filter.kind}
+            onChange={(e) => updateFilter({ kind: e.target.value as FilterKind })}
+          >
+            {(Object.keys(FILTER_KIND_LABELS) as FilterKind[]).map((kind) => (
+              <option key={kind} value={kind}>
+                {FILTER_KIND_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {filter.kind === "one-euro" && (
+          <>
+            {filterNumber("minCutoff", "최소 차단 주파수 (Hz)", 0.1)}
+            {filterNumber("beta", "속도 반응 (β)", 0.001, true)}
+          </>
+        )}
+        {filter.kind === "kalman" && (
+          <>
+            {filterNumber("processNoise", "움직임 잡음 (px/s²)", 100)}
+            {filterNumber("measurementNoise", "측정 잡음 (px)", 5)}
+          </>
+        )}
+
+        <label className="settings-field">
+          <span>자동 캘리브레이션</span>
+          <input
+            type="checkbox"
+            checked={profile.autoCalibration ?? false}
+            onChange={(e) => updateProfile({ autoCalibration: e.target.checked })}
+          />
+        </label>
+
+        <div className="settings-actions">
+          <button onClick={addProfile}>환자 추가</button>
+          <button onClick={onClose}>닫기 (Esc)</button>
+          <button className="primary" onClick={handleSave}>
+            저장
+          </button>
+        </div>
+        <p className="settings-hint">
+          한쪽 눈이 잘 감기지 않거나 처져 있으면 잘 움직이는 눈만 선택하세요. 양쪽 눈을 선택해도
+          캘리브레이션 중 불안정한 눈은 자동으로 비중이 낮아집니다. 환자나 눈 설정을 바꾸면 다시
+          캘리브레이션합니다. 자동 캘리브레이션을 켜면 Space 없이 환자가 점을 바라보는 순간 수집하고, 음성으로
+          안내합니다 (환자 혼자 다시 맞출 때). 한 점을 오래 보기 힘들면 움직이는 점 따라보기를
+          선택하세요. 커서가 떨리면 최소 차단 주파수(One Euro)를 낮추거나 측정 잡음(칼만)을 높이고,
+          늦게 따라오면 속도 반응/움직임 잡음을 높이세요 (Ctrl+Shift+O: 녹화 파일로 필터 비교).
+          눈을 오래 감고 있기 힘들면 응시나 두 번 깜빡임을, 시선을 한 곳에 오래 두기 힘들면 눈 감기를
+          선택하세요. 응시만으로 잘못 선택되는 일이 잦으면 응시 후 한 번 깜빡임을 선택합니다.
+        </p>
+      </div>
+    </div>
+  );
+}
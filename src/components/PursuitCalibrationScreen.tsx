@@ -0,0 +1,137 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { PURSUIT_DURATION_MS, PURSUIT_LEAD_IN_MS, AUTO_BASELINE_DELAY_MS } from "../config";
+import type { TrackerState } from "../tracking/useTracker";
+import type { CalibrationSample, CalibrationDiagnostics } from "../tracking/GazeMapper";
+import {
+  pursuitTarget,
+  estimatePursuitLag,
+  pursuitSamples,
+  type PursuitFrame,
+} from "../tracking/pursuit";
+import { speak } from "../speech";
+
+interface Props {
+  trackerState: TrackerState;
+  notice?: string | null;
+  auto?: boolean; // Space 없이 음성 안내 후 자동 시작
+  fit: (samples: CalibrationSample[]) => CalibrationDiagnostics | null;
+  onComplete: (samples: CalibrationSample[], ok: boolean) => void;
+}
+
+type Phase = "ready" | "lead-in" | "moving" | "done";
+
+/**
+ * 움직이는 점 캘리브레이션 (smooth pursuit) — 점 하나가 화면 전체를 한 바퀴 도는 동안
+ * 특징을 계속 수집하고, 지연 보정 후 조밀한 샘플로 격자 방식과 같은 피팅/진단/검증을 거침.
+ */
+export function PursuitCalibrationScreen({ trackerState, notice, auto = false, fit, onComplete }: Props) {
+  const [phase, setPhase] = useState<Phase>("ready");
+  const [now, setNow] = useState(0); // 움직이기 시작한 뒤 경과 ms (lead-in 중 음수)
+  const startAtRef = useRef(0);
+  const framesRef = useRef<PursuitFrame[]>([]);
+
+  const start = useCallback(() => {
+    framesRef.current = [];
+    startAtRef.current = performance.now() + PURSUIT_LEAD_IN_MS;
+    setPhase("lead-in");
+  }, []);
+
+  const finish = useCallback(() => {
+    const w = window.innerWidth;
+    const h = window.innerHeight;
+    const frames = framesRef.current;
+    const lag = frames.length > 0 ? estimatePursuitLag(frames, w, h) : 0;
+    const samples = pursuitSamples(frames, w, h, lag);
+    console.log(
+      `[Calibration] 움직이는 점: 프레임 ${frames.length}개 → 샘플 ${samples.length}개, 시선 지연 ${lag}ms`
+    );
+    setPhase("done");
+    onComplete(samples, fit(samples) !== null);
+  }, [fit, onComplete]);
+
+  // 자동 모드: 음성 안내 후 시작
+  useEffect(() => {
+    if (!auto || phase !== "ready") return;
+    speak("움직이는 빨간 점을 눈으로 따라가 주세요");
+    const timer = setTimeout(start, AUTO_BASELINE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [auto, phase, start]);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.code !== "Space" || auto || phase !== "ready") return;
+      e.preventDefault();
+      start();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [auto, phase, start]);
+
+  // 점 위치는 프레임 처리와 별개로 화면 주사율에 맞춰 갱신
+  useEffect(() => {
+    if (phase !== "lead-in" && phase !== "moving") return;
+    let raf = 0;
+    const step = () => {
+      const t = performance.now() - startAtRef.current;
+      if (t >= PURSUIT_DURATION_MS) {
+        finish();
+        return;
+      }
+      if (t >= 0 && phase === "lead-in") setPhase("moving");
+      setNow(t);
+      raf = requestAnimationFrame(step);
+    };
+    raf = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(raf);
+  }, [phase, finish]);
+
+  // 깜빡임/얼굴 미검출 프레임은 건너뛰고 수집 (빈 구간은 pursuitSamples에서 버림)
+  useEffect(() => {
+    const features = trackerState.features;
+    if (
+      phase !== "moving" ||
+      !features ||
+      !trackerState.faceDetected ||
+      trackerState.ear < trackerState.earThresholds.blink
+    ) {
+      return;
+    }
+    framesRef.current.push({ t: performance.now() - startAtRef.current, features });
+  }, [phase, trackerState]);
+
+  if (phase === "done") {
+    return (
+      <div className="calibration-screen">
+        <p className="calibration-instruction">캘리브레이션 완료!</p>
+      </div>
+    );
+  }
+
+  const target = pursuitTarget(now, window.innerWidth, window.innerHeight);
+
+  return (
+    <div className="calibration-screen">
+      <div
+        className={`calibration-dot ${phase === "moving" ? "collecting" : ""}`}
+        style={{ left: target.x, top: target.y }}
+      >
+        <div className="calibration-dot-inner" />
+      </div>
+
+      <p className="calibration-instruction">
+        {phase === "ready"
+          ? auto
+            ? "움직이는 빨간 점을 눈으로 따라가 주세요"
+            : "보호자: 환자가 빨간 점을 보면 Space를 누르세요 — 점이 움직이면 눈으로 따라갑니다"
+          : phase === "lead-in"
+            ? "점을 바라봐 주세요 — 곧 움직입니다"
+            : "점을 눈으로 계속 따라가 주세요"}
+      </p>
+      <p className="calibration-progress">
+        움직이는 점 캘리브레이션
+        {phase === "moving" && ` · ${Math.round((now / PURSUIT_DURATION_MS) * 100)}%`}
+      </p>
+      {notice && phase === "ready" && <p className="calibration-notice">{notice}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+import type { SavedCalibration } from "../tracking/calibrationStore";
+import { modelLabel } from "../tracking/GazeMapper";
+import { isFormField } from "../keyboard";
+
+interface Props {
+  saved: SavedCalibration;
+  onRestore: () => void;
+  onRecalibrate: () => void;
+}
+
+/** 시작 시 보호자에게 이전 캘리브레이션 재사용 여부 확인 */
+export function RestoreCalibrationScreen({ saved, onRestore, onRecalibrate }: Props) {
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (isFormField(e.target)) return;
+      if (e.code === "Enter") onRestore();
+      if (e.code === "KeyN") onRecalibrate();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onRestore, onRecalibrate]);
+
+  const d = saved.model.diagnostics;
+
+  return (
+    <div className="settings-screen">
+      <div className="settings-panel">
+        <h2 className="settings-title">이전 캘리브레이션</h2>
+
+        <div className="settings-field">
+          <span>날짜</span>
+          <span>{new Date(saved.savedAt).toLocaleString("ko-KR")}</span>
+        </div>
+        {d && (
+          <div className="settings-field">
+            <span>평균 오차</span>
+            <span>{d.meanErrorPx.toFixed(0)}px</span>
+          </div>
+        )}
+        {d && (
+          <div className="settings-field">
+            <span>모델</span>
+            <span>
+              {modelLabel(d.model)} (교차 검증 {d.cvErrorPx}px)
+            </span>
+          </div>
+        )}
+        <div className="settings-field">
+          <span>카메라</span>
+          <span>{saved.camera?.label ?? "기본 카메라"}</span>
+        </div>
+
+        <div className="settings-actions">
+          <button onClick={onRecalibrate}>새로 캘리브레이션 (N)</button>
+          <button className="primary" onClick={onRestore}>
+            이전 값 사용 (Enter)
+          </button>
+        </div>
+        <p className="settings-hint">
+          환자 자세나 카메라 위치가 바뀌었으면 새로 캘리브레이션하세요. 사용 중에도 R 키로 언제든 다시
+          할 수 있습니다.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  VALIDATION_POINTS,
+  VALIDATION_SETTLE_MS,
+  VALIDATION_FRAMES,
+  VALIDATION_AUTO_ACCEPT_MS,
+} from "../config";
+import type { TrackerState } from "../tracking/useTracker";
+import { modelLabel, type CalibrationDiagnostics } from "../tracking/GazeMapper";
+import { headMotionLabel } from "../tracking/headPose";
+import { distanceRangeLabel } from "../tracking/viewingDistance";
+import { CALIBRATION_METHOD_LABELS, type CalibrationMethod } from "../patientProfile";
+import {
+  measurePoint,
+  summarizeValidation,
+  type ValidationPoint,
+  type ValidationResult,
+  type ValidationVerdict,
+} from "../tracking/validation";
+import { speak } from "../speech";
+import { isFormField } from "../keyboard";
+
+interface Props {
+  trackerState: TrackerState;
+  diagnostics: CalibrationDiagnostics | null;
+  method: CalibrationMethod; // 격자/움직이는 점 결과 비교용 표시
+  badPointCount: number; // 다시 수집할 캘리브레이션 포인트 수 (0이면 버튼 비활성)
+  autoAccept?: boolean; // 자동 캘리브레이션: 통과/주의면 보호자 입력 없이 잠시 후 사용
+  autoRedo?: boolean; // 자동 캘리브레이션: 실패면 잠시 후 다시 수집 (App이 횟수 제한 — false면 보호자 대기)
+  onAccept: () => void;
+  onRedoBad: () => void;
+  onRedoAll: () => void;
+}
+
+const VERDICT_LABELS: Record<ValidationVerdict, string> = {
+  pass: "통과",
+  warn: "주의 — 일부 영역이 부정확합니다",
+  fail: "실패 — 다시 캘리브레이션하세요",
+};
+
+/**
+ * 캘리브레이션 검증: 새 목표점에서 실제 시선 커서의 정확도/정밀도를 측정한 뒤
+ * 목표점 vs 예측점, 오차 벡터, 판정을 보여줌.
+ */
+export function ValidationScreen({
+  trackerState,
+  diagnostics,
+  method,
+  badPointCount,
+  autoAccept = false,
+  autoRedo = false,
+  onAccept,
+  onRedoBad,
+  onRedoAll,
+}: Props) {
+  const [targets] = useState(() =>
+    VALIDATION_POINTS.map((p) => ({ x: p.x * window.innerWidth, y: p.y * window.innerHeight }))
+  );
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [collecting, setCollecting] = useState(false);
+  const [result, setResult] = useState<ValidationResult | null>(null);
+  const gazeBufferRef = useRef<{ x: number; y: number }[]>([]);
+  const measuredRef = useRef<ValidationPoint[]>([]);
+
+  useEffect(() => {
+    gazeBufferRef.current = [];
+    setCollecting(false);
+    const timer = setTimeout(() => setCollecting(true), VALIDATION_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [currentIndex]);
+
+  // 보드에서 환자가 보게 될 커서(스무딩 후 시선)를 그대로 측정
+  useEffect(() => {
+    const { gazeValid, faceDetected, eyesClosed, gazeX, gazeY } = trackerState;
+    if (!collecting || result || !gazeValid || !faceDetected || eyesClosed) return;
+
+    gazeBufferRef.current.push({ x: gazeX, y: gazeY });
+    if (gazeBufferRef.current.length < VALIDATION_FRAMES) return;
+
+    measuredRef.current.push(measurePoint(targets[currentIndex], gazeBufferRef.current));
+    setCollecting(false);
+
+    if (currentIndex + 1 >= targets.length) {
+      const summary = summarizeValidation(measuredRef.current);
+      console.log(
+        `[Validation] ${summary.verdict} — 정확도 ${summary.accuracyPx.toFixed(0)}px, 정밀도 ${summary.precisionPx.toFixed(0)}px, 최악 ${summary.worstPx.toFixed(0)}px`
+      );
+      setResult(summary);
+    } else {
+      setCurrentIndex(currentIndex + 1);
+    }
+  }, [collecting, result, trackerState, currentIndex, targets]);
+
+  useEffect(() => {
+    if (!result) return;
+    function onKeyDown(e: KeyboardEvent) {
+      if (isFormField(e.target)) return;
+      if (e.code === "Enter") onAccept();
+      if (e.code === "KeyB" && badPointCount > 0) onRedoBad();
+      if (e.code === "KeyN") onRedoAll();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [result, badPointCount, onAccept, onRedoBad, onRedoAll]);
+
+  // 자동 모드: 결과를 음성으로 알리고 VALIDATION_AUTO_ACCEPT_MS 후 사용 (그 전에 보호자가 키로 변경 가능).
+  // 실패면 사용하지 않고 나쁜 포인트(없으면 전체)를 다시 수집 — 재시도가 끝났으면 보호자를 기다림
+  useEffect(() => {
+    if (!result || !autoAccept) return;
+    if (result.verdict !== "fail") {
+      speak("시선 맞추기를 마쳤어요");
+      const timer = setTimeout(onAccept, VALIDATION_AUTO_ACCEPT_MS);
+      return () => clearTimeout(timer);
+    }
+    if (!autoRedo) {
+      speak("시선 맞추기가 부정확해요. 보호자를 불러 주세요");
+      return;
+    }
+    speak("시선 맞추기가 부정확해서 다시 할게요");
+    const timer = setTimeout(badPointCount > 0 ? onRedoBad : onRedoAll, VALIDATION_AUTO_ACCEPT_MS);
+    return () => clearTimeout(timer);
+  }, [result, autoAccept, autoRedo, badPointCount, onAccept, onRedoBad, onRedoAll]);
+
+  if (!result) {
+    const target = targets[currentIndex];
+    return (
+      <div className="calibration-screen">
+        <div
+          className={`calibration-dot validation ${collecting ? "collecting" : ""}`}
+          style={{ left: target.x, top: target.y }}
+        >
+          <div className="calibration-dot-inner" />
+        </div>
+        <p className="calibration-instruction">정확도 확인 중 — 환자는 점을 바라봐 주세요</p>
+        <p className="calibration-progress">
+          확인 {currentIndex + 1} / {targets.length}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="calibration-screen">
+      <svg className="validation-plot" width="100%" height="100%">
+        {/* 캘리브레이션 포인트: 목표 → 회귀 예측 (잔차) */}
+        {diagnostics?.perPoint.map((p, i) => (
+          <g key={`c${i}`} className="calib-point">
+            <line x1={p.screenX} y1={p.screenY} x2={p.predX} y2={p.predY} />
+            <circle cx={p.screenX} cy={p.screenY} r={6} className="target" />
+            <circle cx={p.predX} cy={p.predY} r={4} className="predicted" />
+          </g>
+        ))}
+        {/* 검증 포인트: 목표 → 실제 커서 평균 (정밀도 = 원 반지름) */}
+        {result.points.map((p, i) => (
+          <g key={`v${i}`} className={`valid-point ${result.verdict}`}>
+            <line x1={p.targetX} y1={p.targetY} x2={p.meanX} y2={p.meanY} />
+            <circle cx={p.meanX} cy={p.meanY} r={Math.max(p.precisionPx, 4)} className="spread" />
+            <circle cx={p.targetX} cy={p.targetY} r={10} className="target" />
+            <circle cx={p.meanX} cy={p.meanY} r={5} className="predicted" />
+          </g>
+        ))}
+      </svg>
+
+      <div className={`validation-report ${result.verdict}`}>
+        <h2 className="validation-verdict">{VERDICT_LABELS[result.verdict]}</h2>
+        <p>
+          정확도 {result.accuracyPx.toFixed(0)}px (최악 {result.worstPx.toFixed(0)}px) · 정밀도{" "}
+          {result.precisionPx.toFixed(0)}px
+        </p>
+        {diagnostics && (
+          <p className="validation-detail">
+            {CALIBRATION_METHOD_LABELS[method]} ({diagnostics.perPoint.length}개 샘플) · 평균 오차 {diagnostics.meanErrorPx.toFixed(0)}px · R² X={diagnostics.r2X} Y=
+            {diagnostics.r2Y} · 커버리지 {(diagnostics.coverageX * 100).toFixed(0)}% x{" "}
+            {(diagnostics.coverageY * 100).toFixed(0)}%
+            {` · 모델 ${modelLabel(diagnostics.model)} (교차 검증 오차 ${diagnostics.cvErrorPx}px)`}
+            {diagnostics.headMotion && ` · 머리 움직임 ${headMotionLabel(diagnostics.headMotion)}`}
+            {diagnostics.distance && ` · 거리 ${distanceRangeLabel(diagnostics.distance)}`}
+          </p>
+        )}
+        <div className="settings-actions">
+          <button onClick={onRedoAll}>전체 다시 (N)</button>
+          <button onClick={onRedoBad} disabled={badPointCount === 0}>
+            나쁜 포인트 {badPointCount}개 다시 (B)
+          </button>
+          <button className="primary" onClick={onAccept}>
+            사용 (Enter)
+          </button>
+        </div>
+        {autoAccept && (
+          <p className="settings-hint">
+            {result.verdict !== "fail"
+              ? `자동 모드 — ${VALIDATION_AUTO_ACCEPT_MS / 1000}초 후 이 캘리브레이션을 사용합니다`
+              : autoRedo
+                ? `자동 모드 — ${VALIDATION_AUTO_ACCEPT_MS / 1000}초 후 ${
+                    badPointCount > 0 ? "나쁜 포인트를" : "전체를"
+                  } 다시 수집합니다`
+                : "자동 모드 — 다시 해도 부정확합니다. 보호자가 선택해 주세요"}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,22 @@ export const NOSE_TIP = 4;
 export const FOREHEAD = 10;
 export const CHIN = 152;
 
+// 3D head pose (MediaPipe facial transformation matrix)
+export const FACE_GEOMETRY_VERTICAL_FOV_DEG = 63; // MediaPipe 얼굴 기하 계산이 가정하는 카메라 수직 화각 (크롭 → 전체 프레임 이동량 환산)
+export const HEAD_MOTION_WINDOW_FRAMES = 300; // 사용 중 머리 움직임 집계 구간 (~10초)
+
+// Position monitor (캘리브레이션 때 머리 위치 hx, hy, nx, ny 범위와 사용 중 위치 비교)
+export const POSITION_WINDOW_FRAMES = 30; // 중앙값 창 (~1초, 잠깐 고개 돌림은 무시)
+export const POSITION_SCALE_FLOOR = 0.03; // 특징별 척도 하한 (캘리브레이션 중 머리가 거의 안 움직였을 때)
+export const POSITION_CHANGED_SCORE = 2; // 범위 밖 거리 (척도 단위) 이상이면 "자세 변화" 표시
+export const POSITION_FAR_SCORE = 4; // 이 이상이 유지되면 보드에서 보정/재캘리브레이션 제안
+export const POSITION_FAR_HOLD_MS = 3000; // 제안 전 유지 시간 (환자가 잠깐 움직였다 돌아오는 경우 제외)
+
+// Viewing distance (홍채 지름은 사람마다 거의 같음 → 화면상 크기로 카메라까지 거리 추정)
+export const IRIS_DIAMETER_MM = 11.7; // 성인 평균 홍채 지름
+export const DISTANCE_SMOOTHING = 0.05; // 프레임당 거리 EMA 비율 (자세 안내가 깜빡이지 않도록)
+export const DISTANCE_TOLERANCE = 0.12; // 캘리브레이션 때 거리 범위를 이 비율 넘게 벗어나면 자세 안내
+
 // Blink detection
 export const EAR_THRESHOLD = 0.21;
 export const DOUBLE_BLINK_WINDOW_SEC = 0.5;
@@ -33,6 +49,14 @@ export const GAZE_RECOVERY_FRAMES = 8; // 눈 뜬 후 안정화 대기 프레임
 // 눈 감아서 선택
 export const EYE_CLOSE_SELECT_SEC = 1.2; // 이 시간 이상 눈 감으면 선택 (오선택 방지)
 
+// 환자별 EAR 임계값 (베이스라인 측정값 기준 — 측정 전에는 위 고정값 사용)
+export const EAR_BASELINE_FRAMES = 45; // 눈 뜸/감음 각각 수집 프레임 수
+export const EAR_BLINK_FRACTION = 0.45; // 감은 눈(0) ~ 뜬 눈(1) 사이 깜빡임 판정 위치
+export const EAR_SELECT_FRACTION = 0.5; // 눈 감기 선택 타이머 시작 위치
+export const EAR_FREEZE_FRACTION = 0.7; // 시선 고정 위치 (처진 눈꺼풀은 고정만, 선택은 안 함)
+export const EAR_MIN_SEPARATION = 0.04; // 뜬 눈-감은 눈 EAR 차이가 이보다 작으면 측정 실패
+export const EAR_ADAPT_RATE = 0.002; // 사용 중 프레임당 기준선 갱신 비율 (피로 등 느린 변화 추적)
+
 // Calibration
 export const CALIBRATION_POINTS = 16; // 4x4 그리드
 export const CALIBRATION_GRID_ROWS = 4;
@@ -40,13 +64,106 @@ export const CALIBRATION_GRID_COLS = 4;
 export const FRAMES_PER_POINT = 30; // 수집 프레임 수
 export const CALIBRATION_SETTLE_FRAMES = 5; // 처음 N프레임 버림
 export const CALIBRATION_OUTLIER_STD = 1.5; // 이상치 제거 기준 (표준편차 배수)
-export const RIDGE_LAMBDA = 0.5; // 릿지 회귀 정규화 계수 (1.5→0.5: 절편 버그 수정 후 적정값)
+export const RIDGE_LAMBDA = 0.5; // 이상치 제거용 1차 피팅의 릿지 계수 (최종 모델은 아래 교차 검증으로 선택)
+export const CV_LAMBDAS = [0.1, 0.5, 2, 8]; // 교차 검증 후보 릿지 계수
+export const CV_RBF_GAMMAS = [0.05, 0.2]; // 교차 검증 후보 RBF 커널 폭
+export const CV_MAX_FOLDS = 16; // 샘플이 이보다 많으면 연속 구간 단위로 묶어 제외 (움직이는 점)
+export const CV_RBF_MAX_SAMPLES = 60; // 샘플이 이보다 많으면 RBF 후보 제외 (피팅 비용)
+export const CALIBRATION_REDO_MAX_ATTEMPTS = 2; // 잔차가 큰 포인트만 다시 수집하는 최대 횟수
+export const CALIBRATION_REDO_MAX_POINTS = 4; // 한 번에 다시 수집할 최대 포인트 수 (잔차 큰 순)
+
+// Auto calibration (Space 없이 — 환자 혼자 밤에도 가능)
+export const AUTO_CALIB_SETTLE_MS = 1200; // 목표점이 줄어드는 애니메이션 + 시선 이동 대기
+export const AUTO_FIXATION_FRAMES = 10; // 시선 고정 판정 창 (프레임)
+export const AUTO_FIXATION_MAX_STD = 0.01; // 창 안의 홍채 비율(rx, ry) 표준편차가 이 이하면 고정으로 보고 수집 시작
+export const AUTO_POINT_TIMEOUT_MS = 6000; // 이 시간 동안 고정이 없으면 음성 안내
+export const AUTO_MAX_PROMPTS = 2; // 안내 후에도 고정이 없으면 그 포인트는 건너뜀
+export const AUTO_BASELINE_DELAY_MS = 2000; // 눈 기준 측정: 음성 안내 후 수집 시작까지
+export const VALIDATION_AUTO_ACCEPT_MS = 4000; // 자동 모드: 정확도 결과를 보여준 뒤 자동으로 사용
+export const AUTO_CALIBRATION_RETRY_MAX = 2; // 자동 모드: 캘리브레이션/정확도 확인이 실패하면 보호자 없이 다시 하는 최대 횟수
+// Smooth-pursuit calibration (점 하나가 화면을 따라 움직임 — 16점 응시보다 덜 피곤)
+export const PURSUIT_DURATION_MS = 30000; // 경로 한 바퀴 시간 (길수록 느리게 움직임)
+export const PURSUIT_FREQ_X = 3; // Lissajous 가로 주파수 (세로와의 비율로 경로 모양 결정)
+export const PURSUIT_FREQ_Y = 2; // Lissajous 세로 주파수
+export const PURSUIT_MARGIN = 0.08; // 화면 가장자리 여백 (비율)
+export const PURSUIT_LEAD_IN_MS = 2000; // 움직이기 전 시작 위치에 멈춰 시선을 붙잡는 시간
+export const PURSUIT_MAX_LAG_MS = 500; // 시선이 점을 뒤따르는 지연 탐색 범위
+export const PURSUIT_LAG_STEP_MS = 20; // 지연 탐색 간격
+export const PURSUIT_BIN_MS = 200; // 이 시간 단위로 프레임을 묶어 샘플 1개 생성
+export const PURSUIT_MIN_BIN_FRAMES = 3; // 깜빡임 등으로 프레임이 이보다 적은 구간은 버림
+
+export const EYE_UNSTABLE_RATIO = 1.8; // 한쪽 눈 떨림이 반대쪽의 이 배수 이상이면 가중치 감쇠 (안면마비/안검하수)
+
+// Drift correction (자세가 바뀌었을 때 1~5포인트 빠른 보정)
+export const DRIFT_POINTS = [
+  { x: 0.5, y: 0.5 },
+  { x: 0.2, y: 0.2 },
+  { x: 0.8, y: 0.2 },
+  { x: 0.2, y: 0.8 },
+  { x: 0.8, y: 0.8 },
+]; // 화면 비율 좌표 — 앞에서부터 DRIFT_POINT_COUNT개 사용
+export const DRIFT_POINT_COUNT = 5; // 1~5 (1~2개면 평행이동만 보정)
+export const DRIFT_AFFINE_MIN_POINTS = 3; // 이 이상이면 affine 보정
+export const DRIFT_RIDGE_LAMBDA = 0.1; // affine 보정 항을 단위 변환 쪽으로 당기는 강도
+export const DRIFT_SETTLE_MS = 800; // 목표점 표시 후 시선이 옮겨갈 때까지 대기
+export const DRIFT_FRAMES_PER_POINT = 20; // 포인트당 수집 프레임 수
+
+// Implicit recalibration (눈 감기 선택 = 환자가 그 버튼 중심을 보고 있었다는 근거)
+export const IMPLICIT_FEATURE_FRAMES = 10; // 눈 감기 직전 평균낼 특징 프레임 수
+export const IMPLICIT_MIN_FRAMES = 5; // 이보다 적으면 (눈 뜨자마자 감음) 학습하지 않음
+export const IMPLICIT_CLOSE_MAX_AGE_MS = 2000; // 눈 감기 직전 특징이 이보다 오래되면 (선택과 무관한 감기) 학습하지 않음 — EYE_CLOSE_SELECT_SEC + 여유
+export const IMPLICIT_CONFIRM_MS = 4000; // 이 시간 안에 "뒤로"를 선택하면 잘못된 선택으로 보고 버림
+export const IMPLICIT_MAX_ERROR_PX = 250; // 예측 시선이 버튼 중심에서 이보다 멀면 학습하지 않음
+export const IMPLICIT_SAMPLE_WEIGHT = 0.5; // 캘리브레이션 포인트 대비 가중치
+export const IMPLICIT_MAX_SAMPLES = 40; // 최근 N개만 유지
+export const IMPLICIT_REFIT_EVERY = 3; // 확정 샘플 N개마다 재피팅
+export const IMPLICIT_MAX_BASE_DEGRADATION = 1.3; // 재피팅이 캘리브레이션 포인트 오차를 이 배수 넘게 늘리면 거부
+
+// Validation (캘리브레이션 직후 새 목표점으로 실제 정확도 측정)
+export const VALIDATION_POINTS = [
+  { x: 0.5, y: 0.5 },
+  { x: 0.2, y: 0.25 },
+  { x: 0.8, y: 0.25 },
+  { x: 0.2, y: 0.75 },
+  { x: 0.8, y: 0.75 },
+]; // 화면 비율 좌표 (캘리브레이션 그리드와 겹치지 않게)
+export const VALIDATION_SETTLE_MS = 1000; // 목표점 표시 후 시선 이동 + 스무딩 안정화 대기
+export const VALIDATION_FRAMES = 30; // 목표점당 수집 프레임 수
+export const VALIDATION_PASS_PX = 80; // 평균 정확도가 이 이하(+최악 지점이 WARN 이하)면 통과
+export const VALIDATION_WARN_PX = 150; // 평균 정확도가 이보다 크면 실패
+export const VALIDATION_BAD_POINT_PX = 120; // 캘리브레이션 잔차가 이보다 큰 포인트는 "나쁜 포인트"로 재수집 대상
 
-// Gaze smoothing
+// Gaze smoothing — 기존 3단계 필터 (프로필에서 "기존" 선택 시)
 export const SMOOTHING_ALPHA = 0.10; // 낮을수록 부드러움 (고령자 떨림 감소)
 export const MOVING_AVG_SIZE = 8; // 이동 평균 버퍼 크기 (안정성 향상)
 export const MIN_MOVE_PX = 15; // 이 픽셀 이하 움직임은 무시 (미세 떨림 무시 범위 확대)
 
+// Gaze filter — 속도 적응 필터 기본값 (환자 프로필에서 종류 선택/조정)
+export const ONE_EURO_MIN_CUTOFF = 0.3; // 고정 중 차단 주파수 (Hz) — 낮을수록 떨림 억제
+export const ONE_EURO_BETA = 0.002; // 시선 속도(px/s)당 차단 주파수 증가 — 클수록 도약에 빠르게 반응
+export const ONE_EURO_D_CUTOFF = 1.0; // 속도 추정 차단 주파수 (Hz)
+export const KALMAN_PROCESS_NOISE = 800; // 등속 모델 가속도 잡음 (px/s²) — 클수록 빠르게 반응
+export const KALMAN_MEASUREMENT_NOISE = 50; // 측정 잡음 표준편차 (px) — 클수록 부드러움
+export const KALMAN_SACCADE_GATE = 4; // 예측과의 차이가 잡음의 이 배수를 넘으면 도약으로 보고 즉시 따라감
+export const ONE_EURO_MIN_CUTOFF_FLOOR = 0.01; // 프로필 차단 주파수 하한 (Hz) — 0이면 고정 중 커서가 멈춤
+export const KALMAN_NOISE_FLOOR = 0.01; // 프로필 칼만 잡음 하한 — 0이면 분산이 0이 되어 시선이 NaN
+export const FILTER_COMPARE_WINDOW_MS = 100; // 필터 비교: 이 시간 동안의 이동으로 고정/이동 구간 판정
+export const FILTER_COMPARE_MOVE_PX = 120; // 필터 비교: 위 시간 동안 이보다 많이 움직이면 이동 구간
+
+// Fixation / saccade detection (I-DT — 필터 전 시선 좌표 기준)
+export const FIXATION_MAX_DISPERSION_PX = 150; // 창 안 (가로 범위 + 세로 범위)가 이 이하면 한 곳을 보고 있는 것
+export const FIXATION_MIN_DURATION_MS = 120; // 이 시간 이상 머물러야 고정 시작
+export const SACCADE_MAX_GAP_MS = 400; // 고정 사이 간격이 이보다 길면 (깜빡임/얼굴 놓침) 도약으로 세지 않음
+export const FIXATION_HOVER_FALLBACK_MS = 800; // 보드: 고정이 이 시간 넘게 안 잡히면 (떨림 큰 환자) 스무딩된 시선으로 호버 판정
+
+// Prediction uncertainty (예측마다 오차 반경 — 커서 크기, 보드 호버 거부)
+export const UNCERTAINTY_MIN_PX = 20; // 오차 반경 하한
+export const UNCERTAINTY_REGION_SIGMA = 0.2; // 주변 캘리브레이션 잔차 가중 가우시안 폭 (화면 대각선 비율)
+export const UNCERTAINTY_FEATURE_FREE_STD = 0.7; // 가장 가까운 캘리브레이션 샘플과의 눈 특징 거리 (표준편차 단위)가 이 이하면 외삽 아님
+export const UNCERTAINTY_PX_PER_STD = 150; // 위 범위를 넘는 특징 거리 1 표준편차당 오차 반경 증가 (px)
+export const UNCERTAINTY_JITTER_FRAMES = 10; // 최근 떨림 (필터 전 예측 흩어짐) 집계 프레임 수
+export const HOVER_MAX_COVERED_BUTTONS = 1; // 오차 반경 안에 중심이 들어오는 버튼이 이보다 많으면 호버/선택 거부
+
 // Gaze sensitivity (시선 매핑 민감도)
 export const GAZE_SENSITIVITY = 0.9; // 1.0=원본, 낮을수록 화면 중심으로 수축 (0.75→0.9: ey 특징 추가로 과민 완화됨)
 
@@ -54,43 +171,48 @@ export const GAZE_SENSITIVITY = 0.9; // 1.0=원본, 낮을수록 화면 중심
 export const ZOOM_MIN = 1.0;
 export const ZOOM_MAX = 3.0;
 export const ZOOM_STEP = 0.25;
+export const AUTO_FRAME_DEADZONE = 0.12; // 얼굴 중심이 크롭 크기의 이 비율 이상 벗어나야 크롭 이동 (히스테리시스)
+export const AUTO_FRAME_SMOOTHING = 0.08; // 프레임당 목표 위치로 이동하는 비율 (낮을수록 부드러움)
+export const AUTO_FRAME_LOST_FRAMES = 15; // 이 프레임 이상 얼굴을 놓치면 전체 화면에서 다시 찾기
 
-// Dwell selection
-export const DWELL_TIME_SEC = 1.5;
+// Selection (선택 방식은 환자 프로필별: 눈 감기 / 응시 / 두 번 깜빡임 / 응시 + 깜빡임)
+export const DWELL_TIME_SEC = 1.5; // 응시 선택: 같은 버튼을 이 시간 이상 보면 선택
+export const DWELL_BLINK_CONFIRM_SEC = 2.0; // 응시 + 깜빡임: 응시 완료 후 이 시간 안에 깜빡여야 선택 (지나면 응시부터 다시)
 export const SELECTION_COOLDOWN_SEC = 1.5;
 export const HIT_TEST_PADDING_PX = 40;
 export const HYSTERESIS_EXTRA_PX = 30; // 호버 이탈 히스테리시스 (enter 40px, exit 70px)
 export const SELECT_FREEZE_MS = 800; // 선택 후 호버 감지 일시 중단
 
-// UI
-export interface BoardCategory {
-  name: string;
-  items: string[];
-  emergency?: boolean;
-}
-
-export const BOARD_CATEGORIES: BoardCategory[] = [
-  {
-    name: "인사 및 안부",
-    items: ["어서와", "안녕", "잘지냈어?", "밥 먹었어?", "보고싶었어", "잘 가", "좋은 하루 보내"],
-  },
-  {
-    name: "의사소통",
-    items: ["고마워", "미안해", "뭐하고왔어?", "배고파", "목말라", "좋아", "싫어"],
-  },
-  {
-    name: "가족",
-    items: ["경탁이", "미라", "미승이", "영승이", "소향이", "근탁이"],
-  },
-  {
-    name: "긴급",
-    items: ["아파", "간호사 불러줘", "화장실 가고 싶어", "약 먹을 시간이야", "숨이 답답해", "어지러워", "도와줘"],
-    emergency: true,
-  },
-];
+// Board (보드 정의는 board.ts — 사용자 데이터 폴더의 board.json, 없으면 기본 보드)
+export const BOARD_MAX_BUTTONS = 11; // 한 화면의 최대 버튼 수 (하위 화면은 "뒤로" 포함 12개 = 2줄 x 6칸)
+export const BOARD_MAX_LABEL_LENGTH = 20; // 버튼 글자 최대 길이 (큰 글씨가 버튼 안에 들어가도록)
 
 // MediaPipe model
+// 로컬 번들: scripts/fetch-mediapipe-assets.mjs가 public/mediapipe/에 WASM + 모델 + manifest.json 생성
+export const MEDIAPIPE_LOCAL_DIR = "mediapipe/";
+export const MEDIAPIPE_ASSET_PROTOCOL = "mindmaker-asset"; // 패키징 빌드(file://)에서 로컬 에셋을 fetch하기 위한 커스텀 스킴
+export const MEDIAPIPE_CDN_FALLBACK = false; // 켜면 로컬 번들(manifest.json)이 아예 없을 때만 CDN 사용 — CDN 로더는 해시 검사 없이 실행됨 (무결성 실패 시에는 사용 안 함)
+
 export const MEDIAPIPE_WASM_CDN =
   "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.18/wasm";
 export const FACE_LANDMARKER_MODEL =
   "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/latest/face_landmarker.task";
+
+// Session recording (재현용 세션 녹화)
+export const RECORDING_FORMAT_VERSION = 3; // v2: 랜드마크를 크롭이 아닌 전체 프레임 좌표로 저장, v3: 처리 설정 + 드리프트 보정/재피팅 이벤트
+export const RECORDING_MAX_SEC = 600; // 최대 녹화 시간 (프레임당 ~8KB → 10분 ≈ 140MB)
+
+// Input sources
+export const MOUSE_EYE_CLOSE_KEY = "KeyE"; // 마우스 에뮬레이션: 이 키를 누르고 있으면 눈 감음
+
+// Camera
+export const CAMERA_RESOLUTIONS = [
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 },
+];
+export const CAMERA_FRAME_RATES = [15, 24, 30, 60];
+export const CAMERA_DEFAULT_WIDTH = 1280;
+export const CAMERA_DEFAULT_HEIGHT = 720;
+export const CAMERA_DEFAULT_FPS = 30;
+export const CAMERA_RECONNECT_INTERVAL_MS = 1000; // 카메라 분리 시 재연결 시도 간격
@@ -0,0 +1,107 @@
+/**
+ * 캘리브레이션이 묶이는 디스플레이 — Electron에서는 main 프로세스의 screen API (preload 경유),
+ * 브라우저(개발용)에서는 window.screen 근사값.
+ */
+export interface DisplayInfo {
+  id: string;
+  label: string;
+  width: number; // 디스플레이 크기 (DIP)
+  height: number;
+  scaleFactor: number;
+  /** 앱 창 내용 영역 — 디스플레이 대비 0~1 (시선 좌표가 가리키는 물리적 영역) */
+  window: { x: number; y: number; width: number; height: number };
+}
+
+export type DisplayChangeKind = "same" | "remap" | "recalibrate";
+
+export interface DisplayChange {
+  kind: DisplayChangeKind;
+  reason: string | null;
+}
+
+const WINDOW_TOLERANCE = 0.02; // 창 영역 비교 허용 오차 (디스플레이 비율)
+
+function browserDisplay(): DisplayInfo {
+  const { width, height } = window.screen;
+  return {
+    id: "browser",
+    label: "",
+    width,
+    height,
+    scaleFactor: window.devicePixelRatio,
+    window: {
+      x: window.screenX / width,
+      y: window.screenY / height,
+      width: window.innerWidth / width,
+      height: window.innerHeight / height,
+    },
+  };
+}
+
+export async function currentDisplay(): Promise<DisplayInfo> {
+  const api = window.electronAPI;
+  return (api && (await api.display.current())) ?? browserDisplay();
+}
+
+/** 디스플레이 변화 (모니터 이동, 배율/해상도 변경, 창 이동/크기 변경) 구독 — 해제 함수 반환 */
+export function onDisplayChange(listener: () => void): () => void {
+  window.addEventListener("resize", listener);
+  const off = window.electronAPI?.display.onChange(listener);
+  return () => {
+    window.removeEventListener("resize", listener);
+    off?.();
+  };
+}
+
+/**
+ * 캘리브레이션 당시 디스플레이와 비교.
+ * 같은 모니터에서 창이 같은 물리적 영역을 덮으면 배율/해상도가 바뀌어도 정규화 좌표 그대로 다시 맞출 수 있음 (remap).
+ * 다른 모니터이거나 창 영역이 바뀌면 시선 각도 ↔ 화면 위치 관계가 달라져 재캘리브레이션 필요.
+ */
+export function compareDisplays(bound: DisplayInfo, current: DisplayInfo): DisplayChange {
+  if (bound.id !== current.id) {
+    return {
+      kind: "recalibrate",
+      reason: `다른 모니터로 옮겨졌습니다 (${bound.label || bound.id} → ${current.label || current.id})`,
+    };
+  }
+  const a = bound.window;
+  const b = current.window;
+  const moved =
+    Math.abs(a.x - b.x) > WINDOW_TOLERANCE ||
+    Math.abs(a.y - b.y) > WINDOW_TOLERANCE ||
+    Math.abs(a.width - b.width) > WINDOW_TOLERANCE ||
+    Math.abs(a.height - b.height) > WINDOW_TOLERANCE;
+  if (moved) {
+    return { kind: "recalibrate", reason: "창 위치나 크기가 바뀌었습니다" };
+  }
+  if (
+    bound.width !== current.width ||
+    bound.height !== current.height ||
+    bound.scaleFactor !== current.scaleFactor
+  ) {
+    return {
+      kind: "remap",
+      reason: `화면 배율/해상도가 바뀌었습니다 (${bound.width}x${bound.height}@${bound.scaleFactor}x → ${current.width}x${current.height}@${current.scaleFactor}x)`,
+    };
+  }
+  return { kind: "same", reason: null };
+}
+
+/** 화면 좌표(px)를 가진 값 → 현재 창 기준 0~1 */
+export function toNormalized<T extends { screenX: number; screenY: number }>(items: T[]): T[] {
+  return items.map((s) => ({
+    ...s,
+    screenX: s.screenX / window.innerWidth,
+    screenY: s.screenY / window.innerHeight,
+  }));
+}
+
+/** 0~1 정규화 좌표 → 현재 창 크기의 px */
+export function toScreen<T extends { screenX: number; screenY: number }>(items: T[]): T[] {
+  return items.map((s) => ({
+    ...s,
+    screenX: s.screenX * window.innerWidth,
+    screenY: s.screenY * window.innerHeight,
+  }));
+}
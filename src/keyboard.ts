@@ -0,0 +1,8 @@
+/** 입력칸/선택 상자에서 누른 키 — 글자 입력이므로 단축키로 처리하지 않음 (보호자 화면이 다른 화면 위에 뜸) */
+export function isFormField(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement
+  );
+}
@@ -0,0 +1,67 @@
+import type { EyeChoice } from "./tracking/GazeMapper";
+import type { EarBaseline } from "./tracking/EarBaseline";
+import type { FilterSettings } from "./tracking/gazeFilters";
+import type { SelectionMode } from "./tracking/selectionStrategies";
+
+/** 캘리브레이션 방식: 16점 격자 응시 / 움직이는 점 따라보기 */
+export type CalibrationMethod = "grid" | "pursuit";
+
+/** 환자별 설정 (보호자가 관리) */
+export interface PatientProfile {
+  id: string;
+  name: string;
+  eye: EyeChoice; // 시선 추정에 사용할 눈 (한쪽 안면마비/안검하수 시 left/right)
+  earBaseline?: EarBaseline | null; // 캘리브레이션 전 측정한 눈 뜸/감음 EAR
+  autoCalibration?: boolean; // 보호자 없이 시선 고정 감지로 캘리브레이션 (음성 안내)
+  calibrationMethod?: CalibrationMethod; // 기본 grid
+  filter?: FilterSettings; // 시선 스무딩 필터 (없으면 DEFAULT_FILTER_SETTINGS)
+  selectionMode?: SelectionMode; // 보드 버튼 선택 방식 (기본 eye-close)
+}
+
+export interface ProfileStore {
+  profiles: PatientProfile[];
+  activeId: string;
+}
+
+const STORAGE_KEY = "mindmaker.profiles";
+
+export const EYE_CHOICE_LABELS: Record<EyeChoice, string> = {
+  both: "양쪽 눈",
+  left: "왼쪽 눈만 (환자 기준)",
+  right: "오른쪽 눈만 (환자 기준)",
+};
+
+export const CALIBRATION_METHOD_LABELS: Record<CalibrationMethod, string> = {
+  grid: "16개 점 차례로 보기",
+  pursuit: "움직이는 점 따라보기",
+};
+
+export function createProfile(name: string): PatientProfile {
+  return { id: `p${Date.now().toString(36)}`, name, eye: "both" };
+}
+
+function defaultStore(): ProfileStore {
+  const profile = { ...createProfile("기본 환자"), id: "default" };
+  return { profiles: [profile], activeId: profile.id };
+}
+
+export function loadProfiles(): ProfileStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultStore();
+    const store = JSON.parse(raw) as ProfileStore;
+    if (!Array.isArray(store.profiles) || store.profiles.length === 0) return defaultStore();
+    return store;
+  } catch {
+    return defaultStore();
+  }
+}
+
+export function saveProfiles(store: ProfileStore): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+/** 활성 프로필 (삭제 등으로 ID가 없으면 첫 번째) */
+export function activeProfile(store: ProfileStore): PatientProfile {
+  return store.profiles.find((p) => p.id === store.activeId) ?? store.profiles[0];
+}
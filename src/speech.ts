@@ -0,0 +1,7 @@
+/** 한국어 음성 출력 (보드 발화, 캘리브레이션 음성 안내) */
+export function speak(text: string): void {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = "ko-KR";
+  utterance.rate = 0.9;
+  speechSynthesis.speak(utterance);
+}
@@ -0,0 +1,43 @@
+import type { DisplayInfo } from "./display";
+
+/** preload.ts에서 노출하는 API */
+export interface ElectronAPI {
+  platform: string;
+  storage: {
+    read(name: string): Promise<string | null>;
+    write(name: string, text: string): Promise<void>;
+  };
+  display: {
+    /** 앱 창이 있는 디스플레이 (창이 아직 없으면 null) */
+    current(): Promise<DisplayInfo | null>;
+    /** 디스플레이 추가/제거/배율 변경, 창 이동/크기 변경 — 해제 함수 반환 */
+    onChange(listener: () => void): () => void;
+  };
+}
+
+declare global {
+  interface Window {
+    electronAPI?: ElectronAPI;
+  }
+}
+
+const LOCAL_PREFIX = "mindmaker.storage.";
+
+/**
+ * JSON 저장소 — Electron에서는 userData 폴더의 파일, 브라우저(개발용)에서는 localStorage.
+ * 파일이 없으면 null, 손상되었으면 예외.
+ */
+export async function readStored<T>(name: string): Promise<T | null> {
+  const api = window.electronAPI;
+  const text = api
+    ? await api.storage.read(name)
+    : localStorage.getItem(LOCAL_PREFIX + name);
+  return text === null ? null : (JSON.parse(text) as T);
+}
+
+export async function writeStored(name: string, value: unknown): Promise<void> {
+  const text = JSON.stringify(value);
+  const api = window.electronAPI;
+  if (api) await api.storage.write(name, text);
+  else localStorage.setItem(LOCAL_PREFIX + name, text);
+}
@@ -0,0 +1,102 @@
+import type { Landmarks } from "./EyeTracker";
+import {
+  AUTO_FRAME_DEADZONE,
+  AUTO_FRAME_SMOOTHING,
+  AUTO_FRAME_LOST_FRAMES,
+} from "../config";
+
+/** 카메라 프레임 내 크롭 영역 (전체 프레임 대비 0~1 정규화) */
+export interface CropRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, w: 1, h: 1 };
+
+export interface FramingOptions {
+  zoom: number;
+  autoFrame: boolean; // false = 중앙 고정 크롭
+}
+
+function cropAround(cx: number, cy: number, zoom: number): CropRect {
+  const w = 1 / zoom;
+  const h = 1 / zoom;
+  // 크롭이 프레임 밖으로 나가지 않도록 중심 제한
+  const x = Math.max(0, Math.min(1 - w, cx - w / 2));
+  const y = Math.max(0, Math.min(1 - h, cy - h / 2));
+  return { x, y, w, h };
+}
+
+/** 크롭 좌표 랜드마크 → 전체 프레임 좌표 (nx/ny 특징이 크롭 이동과 무관하게 유지되도록) */
+export function toFullFrame(landmarks: Landmarks, crop: CropRect): Landmarks {
+  if (crop.w === 1 && crop.h === 1) return landmarks;
+  return landmarks.map((p) => ({
+    ...p,
+    x: crop.x + p.x * crop.w,
+    y: crop.y + p.y * crop.h,
+    z: p.z * crop.w, // z는 이미지 너비 기준 스케일
+  }));
+}
+
+/**
+ * 얼굴 추적 자동 줌 (auto-framing).
+ *
+ * 환자가 화면 중앙에 있지 않아도 얼굴 바운딩 박스를 따라 크롭 영역을 이동.
+ * - 히스테리시스: 얼굴이 데드존 밖으로 벗어날 때만 목표 위치 갱신 (작은 움직임에 크롭이 흔들리지 않음)
+ * - 스무딩: 목표 위치로 지수 이동 (크롭이 튀지 않음)
+ * - 얼굴을 놓치면 잠시 후 전체 프레임에서 다시 찾은 뒤 바로 그 위치로 이동
+ */
+export class AutoFramer {
+  private cx = 0.5;
+  private cy = 0.5;
+  private targetX = 0.5;
+  private targetY = 0.5;
+  private lostFrames = 0;
+
+  /** 다음 프레임에 사용할 크롭 영역 */
+  nextCrop({ zoom, autoFrame }: FramingOptions): CropRect {
+    if (zoom <= 1) return FULL_FRAME;
+    if (!autoFrame) return cropAround(0.5, 0.5, zoom);
+    if (this.lostFrames > AUTO_FRAME_LOST_FRAMES) return FULL_FRAME;
+
+    this.cx += (this.targetX - this.cx) * AUTO_FRAME_SMOOTHING;
+    this.cy += (this.targetY - this.cy) * AUTO_FRAME_SMOOTHING;
+    return cropAround(this.cx, this.cy, zoom);
+  }
+
+  /** 추론 결과 반영 — landmarks는 전체 프레임 좌표 */
+  update(landmarks: Landmarks | null, zoom: number): void {
+    if (!landmarks) {
+      this.lostFrames++;
+      return;
+    }
+
+    let minX = 1, maxX = 0, minY = 1, maxY = 0;
+    for (const p of landmarks) {
+      if (p.x < minX) minX = p.x;
+      if (p.x > maxX) maxX = p.x;
+      if (p.y < minY) minY = p.y;
+      if (p.y > maxY) maxY = p.y;
+    }
+    const faceX = (minX + maxX) / 2;
+    const faceY = (minY + maxY) / 2;
+
+    if (this.lostFrames > AUTO_FRAME_LOST_FRAMES) {
+      // 전체 프레임에서 다시 찾음 → 천천히 이동하지 않고 바로 얼굴로
+      this.cx = this.targetX = faceX;
+      this.cy = this.targetY = faceY;
+    } else {
+      const deadzone = AUTO_FRAME_DEADZONE / Math.max(zoom, 1);
+      if (
+        Math.abs(faceX - this.targetX) > deadzone ||
+        Math.abs(faceY - this.targetY) > deadzone
+      ) {
+        this.targetX = faceX;
+        this.targetY = faceY;
+      }
+    }
+    this.lostFrames = 0;
+  }
+}
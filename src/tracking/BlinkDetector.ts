@@ -1,4 +1,5 @@
 import type { Landmarks } from "./EyeTracker";
+import { EQUAL_EYE_WEIGHTS, type EyeWeights } from "./GazeMapper";
 import {
   LEFT_EYE,
   RIGHT_EYE,
@@ -26,6 +27,12 @@ function computeEAR(landmarks: Landmarks, eyeIndices: number[]): number {
 
 export class BlinkDetector {
   ear = 0;
+  leftEar = 0;
+  rightEar = 0;
+  /** 눈별 EAR 결합 가중치 — 감기지 않는 눈(마비)이 깜빡임 판정을 흐리지 않도록 */
+  eyeWeights: EyeWeights = EQUAL_EYE_WEIGHTS;
+  /** 깜빡임 판정 EAR (환자별 베이스라인이 있으면 파이프라인이 갱신) */
+  threshold = EAR_THRESHOLD;
   blinkCount = 0;
   doubleBlink = false;
 
@@ -33,13 +40,20 @@ export class BlinkDetector {
   private wasClosed = false;
   private blinkTimes: number[] = [];
 
-  update(landmarks: Landmarks): void {
-    const leftEar = computeEAR(landmarks, LEFT_EYE);
-    const rightEar = computeEAR(landmarks, RIGHT_EYE);
-    this.ear = (leftEar + rightEar) / 2;
+  /** timestampMs: 프레임 캡처 시각 (세션 재생 시 원본 시각을 그대로 전달) */
+  update(landmarks: Landmarks, timestampMs = performance.now()): void {
+    this.leftEar = computeEAR(landmarks, LEFT_EYE);
+    this.rightEar = computeEAR(landmarks, RIGHT_EYE);
+    const { left, right } = this.eyeWeights;
+    this.updateEar(left * this.leftEar + right * this.rightEar, timestampMs);
+  }
+
+  /** 랜드마크 없이 EAR만 주어지는 입력 소스용 (마우스 에뮬레이션/스크립트) */
+  updateEar(ear: number, timestampMs = performance.now()): void {
+    this.ear = ear;
     this.doubleBlink = false;
 
-    if (this.ear < EAR_THRESHOLD) {
+    if (this.ear < this.threshold) {
       this.closedFrames++;
       this.wasClosed = true;
     } else {
@@ -48,15 +62,14 @@ export class BlinkDetector {
         this.closedFrames >= BLINK_MIN_FRAMES &&
         this.closedFrames <= BLINK_MAX_FRAMES
       ) {
-        this.registerBlink();
+        this.registerBlink(timestampMs / 1000);
       }
       this.closedFrames = 0;
       this.wasClosed = false;
     }
   }
 
-  private registerBlink(): void {
-    const now = performance.now() / 1000;
+  private registerBlink(now: number): void {
     this.blinkCount++;
     this.blinkTimes.push(now);
 
@@ -80,6 +93,8 @@ export class BlinkDetector {
     this.wasClosed = false;
     this.blinkTimes = [];
     this.ear = 0;
+    this.leftEar = 0;
+    this.rightEar = 0;
     this.blinkCount = 0;
     this.doubleBlink = false;
   }
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  FIXATION_HOVER_FALLBACK_MS,
+  SELECTION_COOLDOWN_SEC,
+  SELECT_FREEZE_MS,
+} from "../config";
+import { BoardSelector, type BoardSelectorInput } from "./BoardSelector";
+import type { ButtonRect } from "./hitTest";
+
+const BUTTONS: ButtonRect[] = [
+  { left: 0, top: 0, right: 400, bottom: 300 },
+  { left: 600, top: 0, right: 1000, bottom: 300 },
+];
+
+/** (x, y)에 고정 중인 상태 */
+function at(x: number, y: number, patch: Partial<BoardSelectorInput> = {}): BoardSelectorInput {
+  return {
+    gazeValid: true,
+    gazeX: x,
+    gazeY: y,
+    gazeErrorPx: 0,
+    fixation: { x, y, startMs: 0, durationMs: 200 },
+    eyeCloseSelect: false,
+    doubleBlink: false,
+    blinkCount: 0,
+    ...patch,
+  };
+}
+
+describe("BoardSelector", () => {
+  it("고정이 잡힌 버튼을 호버하고 눈 감기로 선택", () => {
+    const selector = new BoardSelector("eye-close");
+    expect(selector.update(at(200, 150), BUTTONS, 1000).hovered).toBe(0);
+    const result = selector.update(at(200, 150, { eyeCloseSelect: true }), BUTTONS, 1033);
+    expect(result.selected).toBe(0);
+  });
+
+  it("고정이 없으면 FIXATION_HOVER_FALLBACK_MS 동안 호버 유지, 이후 스무딩된 시선으로 판정", () => {
+    const selector = new BoardSelector();
+    selector.update(at(200, 150), BUTTONS, 1000);
+    const moving = at(800, 150, { fixation: null });
+    expect(selector.update(moving, BUTTONS, 1000 + FIXATION_HOVER_FALLBACK_MS - 1).hovered).toBe(0);
+    expect(selector.update(moving, BUTTONS, 1000 + FIXATION_HOVER_FALLBACK_MS).hovered).toBe(1);
+  });
+
+  it("오차 반경이 여러 버튼을 덮으면 호버/선택 안 함", () => {
+    const selector = new BoardSelector();
+    selector.update(at(200, 150), BUTTONS, 1000);
+    const result = selector.update(at(200, 150, { gazeErrorPx: 1000, eyeCloseSelect: true }), BUTTONS, 1033);
+    expect(result.hovered).toBeNull();
+    expect(result.selected).toBeNull();
+  });
+
+  it("선택 순간 예측이 불확실하면 선택을 거부", () => {
+    const selector = new BoardSelector();
+    // 고정 중심은 버튼 위지만, 이번 프레임 시선은 두 버튼 사이 + 넓은 오차 반경
+    const result = selector.update(
+      at(200, 150, { gazeX: 500, gazeY: 150, gazeErrorPx: 400, eyeCloseSelect: true }),
+      BUTTONS,
+      1000
+    );
+    expect(result.hovered).toBe(0);
+    expect(result.rejected).toBe(true);
+    expect(result.selected).toBeNull();
+  });
+
+  it("선택 후 SELECT_FREEZE_MS 동안 호버 고정, SELECTION_COOLDOWN_SEC 안의 재선택 무시", () => {
+    const selector = new BoardSelector();
+    expect(selector.update(at(200, 150, { eyeCloseSelect: true }), BUTTONS, 1000).selected).toBe(0);
+    expect(selector.update(at(800, 150), BUTTONS, 1000 + SELECT_FREEZE_MS - 1).hovered).toBe(0);
+    expect(selector.update(at(800, 150), BUTTONS, 1000 + SELECT_FREEZE_MS).hovered).toBe(1);
+
+    const cooldownEnd = 1000 + SELECTION_COOLDOWN_SEC * 1000;
+    const again = at(800, 150, { eyeCloseSelect: true });
+    expect(selector.update(again, BUTTONS, cooldownEnd - 1).selected).toBeNull();
+    expect(selector.update(again, BUTTONS, cooldownEnd).selected).toBe(1);
+  });
+
+  it("선택으로 화면이 바뀌면 프리즈 동안 새 화면 버튼을 호버하지 않음", () => {
+    const selector = new BoardSelector();
+    selector.update(at(200, 150, { eyeCloseSelect: true }), BUTTONS, 1000);
+    selector.clearHover();
+    expect(selector.update(at(200, 150), BUTTONS, 1033).hovered).toBeNull();
+    expect(selector.update(at(200, 150), BUTTONS, 1000 + SELECT_FREEZE_MS).hovered).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  SELECTION_COOLDOWN_SEC,
+  SELECT_FREEZE_MS,
+  FIXATION_HOVER_FALLBACK_MS,
+  HOVER_MAX_COVERED_BUTTONS,
+} from "../config";
+import { coveredButtons, hitTest, type ButtonRect } from "./hitTest";
+import {
+  createSelectionStrategy,
+  type SelectionMode,
+  type SelectionProgress,
+  type SelectionStrategy,
+} from "./selectionStrategies";
+import type { TrackerState } from "./useTracker";
+
+/** 보드 판정에 쓰는 추적 상태 */
+export type BoardSelectorInput = Pick<
+  TrackerState,
+  | "gazeValid"
+  | "gazeX"
+  | "gazeY"
+  | "gazeErrorPx"
+  | "fixation"
+  | "eyeCloseSelect"
+  | "doubleBlink"
+  | "blinkCount"
+>;
+
+export interface BoardSelectorResult {
+  hovered: number | null; // 호버 중인 버튼 인덱스
+  selected: number | null; // 이번 프레임에 선택된 버튼 (없으면 null)
+  rejected: boolean; // 선택 조건은 맞았지만 오차 반경이 여러 버튼을 덮어 거부
+  progress: SelectionProgress;
+}
+
+/**
+ * 보드의 호버/선택 판정 — 프레임마다 추적 상태와 버튼 영역을 받아 결정.
+ *
+ * - 호버: 고정 중심 기준 (도약 중에는 유지), 고정이 FIXATION_HOVER_FALLBACK_MS 넘게 없으면 스무딩된 시선
+ * - 오차 반경이 HOVER_MAX_COVERED_BUTTONS보다 많은 버튼을 덮으면 호버/선택 안 함
+ * - 선택 후 SELECT_FREEZE_MS 동안 호버 고정, SELECTION_COOLDOWN_SEC 안의 재선택 무시
+ */
+export class BoardSelector {
+  private strategy: SelectionStrategy;
+  private hovered: number | null = null;
+  private lastFixationAt = 0; // 마지막으로 고정이 잡힌 시각
+  private lastSelectionAt = -Infinity;
+  private freezeUntil = 0;
+
+  constructor(mode: SelectionMode = "eye-close") {
+    this.strategy = createSelectionStrategy(mode);
+  }
+
+  setMode(mode: SelectionMode): void {
+    this.strategy = createSelectionStrategy(mode);
+  }
+
+  /** 화면이 바뀌어 버튼이 달라졌을 때 */
+  clearHover(): void {
+    this.hovered = null;
+    this.strategy.reset();
+  }
+
+  update(state: BoardSelectorInput, rects: (ButtonRect | null)[], tMs: number): BoardSelectorResult {
+    this.updateHover(state, rects, tMs);
+
+    const hovered = this.hovered;
+    const select = this.strategy.update({
+      hovered,
+      tMs,
+      eyeCloseSelect: state.eyeCloseSelect,
+      doubleBlink: state.doubleBlink,
+      blinkCount: state.blinkCount,
+    });
+    const result = { hovered, selected: null, rejected: false, progress: this.strategy.progress };
+    if (!select || hovered === null) return result;
+
+    // 선택 순간 예측이 여러 버튼을 덮을 만큼 불확실했으면 거부
+    if (coveredButtons(rects, state.gazeX, state.gazeY, state.gazeErrorPx) > HOVER_MAX_COVERED_BUTTONS) {
+      return { ...result, rejected: true };
+    }
+    if (tMs - this.lastSelectionAt < SELECTION_COOLDOWN_SEC * 1000) return result;
+
+    this.lastSelectionAt = tMs;
+    this.freezeUntil = tMs + SELECT_FREEZE_MS;
+    return { ...result, selected: hovered };
+  }
+
+  private updateHover(state: BoardSelectorInput, rects: (ButtonRect | null)[], tMs: number): void {
+    // 선택 프리즈 중이면 호버 감지 중단
+    if (tMs < this.freezeUntil) return;
+
+    if (!state.gazeValid) {
+      this.hovered = null;
+      return;
+    }
+
+    // 고정이 오래 안 잡히면 (떨림이 큰 환자) 스무딩된 시선으로 판정
+    const { fixation } = state;
+    if (fixation) this.lastFixationAt = tMs;
+    else if (tMs - this.lastFixationAt < FIXATION_HOVER_FALLBACK_MS) return;
+    const x = fixation ? fixation.x : state.gazeX;
+    const y = fixation ? fixation.y : state.gazeY;
+
+    // 예측이 불확실해 오차 반경이 여러 버튼을 덮으면 호버하지 않음
+    if (coveredButtons(rects, x, y, state.gazeErrorPx) > HOVER_MAX_COVERED_BUTTONS) {
+      this.hovered = null;
+      return;
+    }
+    this.hovered = hitTest(rects, x, y, this.hovered);
+  }
+}
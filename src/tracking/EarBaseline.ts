@@ -0,0 +1,87 @@
+import {
+  EAR_THRESHOLD,
+  GAZE_FREEZE_EAR,
+  EAR_BLINK_FRACTION,
+  EAR_SELECT_FRACTION,
+  EAR_FREEZE_FRACTION,
+  EAR_MIN_SEPARATION,
+  EAR_ADAPT_RATE,
+} from "../config";
+
+/** 환자의 눈 뜸/감음 EAR 대표값 (중앙값) */
+export interface EarBaseline {
+  open: number;
+  closed: number;
+}
+
+export interface EarThresholds {
+  blink: number; // 깜빡임 판정
+  select: number; // 눈 감기 선택 타이머
+  freeze: number; // 시선 고정
+}
+
+/** 베이스라인 측정 전 기본값 (기존 고정 임계값과 동일한 동작) */
+export const DEFAULT_EAR_THRESHOLDS: EarThresholds = {
+  blink: EAR_THRESHOLD,
+  select: GAZE_FREEZE_EAR,
+  freeze: GAZE_FREEZE_EAR,
+};
+
+function median(vals: number[]): number {
+  const sorted = [...vals].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** 수집한 EAR로 베이스라인 계산. 뜬 눈과 감은 눈이 구분되지 않으면 null */
+export function measureEarBaseline(openEars: number[], closedEars: number[]): EarBaseline | null {
+  if (openEars.length === 0 || closedEars.length === 0) return null;
+  const open = median(openEars);
+  const closed = median(closedEars);
+  if (open - closed < EAR_MIN_SEPARATION) return null;
+  return { open, closed };
+}
+
+export function thresholdsFor(b: EarBaseline): EarThresholds {
+  const at = (fraction: number) => b.closed + fraction * (b.open - b.closed);
+  return {
+    blink: at(EAR_BLINK_FRACTION),
+    select: at(EAR_SELECT_FRACTION),
+    freeze: at(EAR_FREEZE_FRACTION),
+  };
+}
+
+/**
+ * 환자별 EAR 임계값 — 베이스라인에서 시작해 사용 중 천천히 갱신.
+ * 뜬 눈 프레임(freeze 이상)은 open 쪽, 감은 눈 프레임(blink 미만)은 closed 쪽으로만 반영.
+ */
+export class AdaptiveEarThresholds {
+  private current: EarBaseline | null = null;
+  private cached: EarThresholds = DEFAULT_EAR_THRESHOLDS;
+
+  get baseline(): EarBaseline | null {
+    return this.current;
+  }
+
+  get thresholds(): EarThresholds {
+    return this.cached;
+  }
+
+  setBaseline(baseline: EarBaseline | null): void {
+    this.current = baseline ? { ...baseline } : null;
+    this.cached = baseline ? thresholdsFor(baseline) : DEFAULT_EAR_THRESHOLDS;
+  }
+
+  update(ear: number): void {
+    const b = this.current;
+    if (!b) return;
+
+    const next = { ...b };
+    if (ear >= this.cached.freeze) next.open += EAR_ADAPT_RATE * (ear - b.open);
+    else if (ear < this.cached.blink) next.closed += EAR_ADAPT_RATE * (ear - b.closed);
+    else return;
+
+    if (next.open - next.closed < EAR_MIN_SEPARATION) return;
+    this.current = next;
+    this.cached = thresholdsFor(next);
+  }
+}
@@ -1,33 +1,49 @@
 import {
   FaceLandmarker,
-  FilesetResolver,
+  type ImageSource,
   type NormalizedLandmark,
 } from "@mediapipe/tasks-vision";
-import { MEDIAPIPE_WASM_CDN, FACE_LANDMARKER_MODEL } from "../config";
+import { loadFaceLandmarkerAssets } from "./assetLoader";
 
 export type Landmarks = NormalizedLandmark[];
 
+export interface FaceResult {
+  landmarks: Landmarks;
+  /** 얼굴 변환 행렬 4x4 (column-major, 머리 회전 + 이동) — 없으면 null */
+  transform: number[] | null;
+}
+
 export class EyeTracker {
   private landmarker: FaceLandmarker | null = null;
 
-  async init(): Promise<void> {
-    const filesetResolver = await FilesetResolver.forVisionTasks(
-      MEDIAPIPE_WASM_CDN
-    );
-    this.landmarker = await FaceLandmarker.createFromOptions(filesetResolver, {
-      baseOptions: { modelAssetPath: FACE_LANDMARKER_MODEL },
-      runningMode: "VIDEO",
-      numFaces: 1,
-      minFaceDetectionConfidence: 0.5,
-      minTrackingConfidence: 0.5,
-    });
+  /** 로컬 번들 에셋 검증 후 로드 (실패 시 AssetLoadError) */
+  async init(assetBaseUrl?: string): Promise<void> {
+    const assets = await loadFaceLandmarkerAssets(assetBaseUrl);
+    try {
+      this.landmarker = await FaceLandmarker.createFromOptions(assets.wasmFileset, {
+        baseOptions: {
+          modelAssetBuffer: assets.modelAssetBuffer,
+          modelAssetPath: assets.modelAssetPath,
+        },
+        runningMode: "VIDEO",
+        numFaces: 1,
+        minFaceDetectionConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+        outputFacialTransformationMatrixes: true,
+      });
+    } finally {
+      assets.release();
+    }
   }
 
-  process(source: HTMLVideoElement | HTMLCanvasElement, timestampMs: number): Landmarks | null {
+  process(source: ImageSource, timestampMs: number): FaceResult | null {
     if (!this.landmarker) return null;
     const result = this.landmarker.detectForVideo(source, timestampMs);
     if (result.faceLandmarks.length > 0) {
-      return result.faceLandmarks[0];
+      return {
+        landmarks: result.faceLandmarks[0],
+        transform: result.facialTransformationMatrixes?.[0]?.data ?? null,
+      };
     }
     return null;
   }
@@ -0,0 +1,118 @@
+import type { Landmarks } from "./EyeTracker";
+import type { GazeFeatures } from "./GazeMapper";
+import { AssetLoadError, defaultAssetBaseUrl } from "./assetLoader";
+import type { CropRect } from "./AutoFramer";
+import type { HeadPose } from "./headPose";
+
+// --- 메인 스레드 ↔ 워커 메시지 ---
+
+export type WorkerRequest =
+  | { type: "init"; assetBaseUrl: string }
+  | { type: "frame"; frame: ImageBitmap; timestampMs: number; crop: CropRect };
+
+export type WorkerResponse =
+  | { type: "ready" }
+  | { type: "error"; message: string; asset: string | null }
+  | {
+      type: "result";
+      timestampMs: number;
+      landmarks: Landmarks | null;
+      headPose: HeadPose | null;
+      features: GazeFeatures | null;
+    };
+
+export interface FrameResult {
+  landmarks: Landmarks;
+  headPose: HeadPose | null; // 녹화에 함께 저장 (재생 시 같은 특징 재현)
+  features: GazeFeatures;
+}
+
+/**
+ * EyeTracker를 Web Worker에서 실행하는 메인 스레드 프록시.
+ *
+ * 프레임은 ImageBitmap으로 transfer되고 랜드마크 + 머리 자세 + 특징 벡터가 메시지로 돌아옴.
+ * 줌 크롭 프레임이면 crop을 함께 보내 랜드마크를 전체 프레임 좌표로 되돌려 받음.
+ * 한 번에 한 프레임만 처리 중일 수 있음 — 호출 측이 이전 process()가 끝난 뒤 다음 프레임을 보냄.
+ */
+export class EyeTrackerWorker {
+  private worker: Worker | null = null;
+  private pending: {
+    resolve: (result: FrameResult | null) => void;
+    reject: (err: Error) => void;
+  } | null = null;
+
+  async init(assetBaseUrl = defaultAssetBaseUrl()): Promise<void> {
+    this.close();
+    const worker = new Worker(new URL("./tracker.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    this.worker = worker;
+
+    await new Promise<void>((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const msg = e.data;
+        if (msg.type === "ready") resolve();
+        else if (msg.type === "error") reject(toError(msg));
+      };
+      worker.onerror = (e) => reject(new Error(e.message || "추론 워커를 시작할 수 없습니다"));
+      this.post({ type: "init", assetBaseUrl });
+    });
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => this.handleMessage(e.data);
+    worker.onerror = (e) => this.settle(null, new Error(e.message || "추론 워커 오류"));
+  }
+
+  /** 프레임 추론 요청. frame은 transfer되므로 호출 후 사용 불가 */
+  process(
+    frame: ImageBitmap,
+    timestampMs: number,
+    crop: CropRect
+  ): Promise<FrameResult | null> {
+    if (!this.worker) {
+      frame.close();
+      return Promise.resolve(null);
+    }
+    if (this.pending) {
+      frame.close();
+      return Promise.reject(new Error("이전 프레임 처리 중"));
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.post({ type: "frame", frame, timestampMs, crop }, [frame]);
+    });
+  }
+
+  close(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.settle(null);
+  }
+
+  private handleMessage(msg: WorkerResponse): void {
+    if (msg.type === "result") {
+      this.settle(
+        msg.landmarks && msg.features
+          ? { landmarks: msg.landmarks, headPose: msg.headPose, features: msg.features }
+          : null
+      );
+    } else if (msg.type === "error") {
+      this.settle(null, toError(msg));
+    }
+  }
+
+  private settle(result: FrameResult | null, err?: Error): void {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending) return;
+    if (err) pending.reject(err);
+    else pending.resolve(result);
+  }
+
+  private post(msg: WorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(msg, transfer);
+  }
+}
+
+function toError(msg: { message: string; asset: string | null }): Error {
+  return msg.asset ? new AssetLoadError(msg.asset, msg.message) : new Error(msg.message);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { FIXATION_MAX_DISPERSION_PX, FIXATION_MIN_DURATION_MS } from "../config";
+import { FixationDetector } from "./FixationDetector";
+
+describe("FixationDetector", () => {
+  it("긴 고정도 한 번만 시작하고 중심은 전체 평균", () => {
+    const detector = new FixationDetector();
+    const frames = 200_000; // 30fps로 약 2시간
+    for (let i = 0; i < frames; i++) {
+      detector.update(500 + (i % 2 ? 10 : -10), 400, i * 33);
+    }
+    const events = detector.drainEvents();
+    expect(events.map((e) => e.type)).toEqual(["fixation-start"]);
+    expect(detector.fixation?.x).toBeCloseTo(500, 6);
+    expect(detector.fixation?.durationMs).toBe((frames - 1) * 33);
+  });
+
+  it("고정 범위를 벗어나는 점에서 고정 종료 → 다음 고정까지 도약", () => {
+    const detector = new FixationDetector();
+    let t = 0;
+    for (; t <= FIXATION_MIN_DURATION_MS * 3; t += 33) detector.update(200, 200, t);
+    // 범위 안에서 조금씩 움직이다가
+    detector.update(200 + FIXATION_MAX_DISPERSION_PX / 2, 200, (t += 33));
+    // 누적 범위를 넘기면 종료
+    detector.update(200 - FIXATION_MAX_DISPERSION_PX / 2 - 1, 200, (t += 33));
+    expect(detector.fixation).toBeNull();
+
+    for (let i = 0; i <= FIXATION_MIN_DURATION_MS / 33 + 1; i++) detector.update(900, 600, (t += 33));
+    expect(detector.drainEvents().map((e) => e.type)).toEqual([
+      "fixation-start",
+      "fixation-end",
+      "fixation-start",
+      "saccade",
+    ]);
+    expect(detector.stats.saccadeCount).toBe(1);
+  });
+});
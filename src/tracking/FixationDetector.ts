@@ -0,0 +1,204 @@
+import {
+  FIXATION_MAX_DISPERSION_PX,
+  FIXATION_MIN_DURATION_MS,
+  SACCADE_MAX_GAP_MS,
+} from "../config";
+
+/** 진행 중인 고정 (중심은 지금까지 들어온 점의 평균) */
+export interface Fixation {
+  x: number;
+  y: number;
+  startMs: number;
+  durationMs: number;
+}
+
+export type GazeEvent =
+  | { type: "fixation-start"; t: number; x: number; y: number }
+  | { type: "fixation-end"; t: number; x: number; y: number; durationMs: number }
+  | {
+      type: "saccade";
+      t: number;
+      fromX: number;
+      fromY: number;
+      toX: number;
+      toY: number;
+      amplitudePx: number;
+      durationMs: number; // 이전 고정 종료 ~ 다음 고정 시작
+    };
+
+export interface FixationStats {
+  fixationCount: number; // 끝난 고정 수
+  meanFixationMs: number;
+  saccadeCount: number;
+  meanSaccadePx: number;
+}
+
+export const EMPTY_FIXATION_STATS: FixationStats = {
+  fixationCount: 0,
+  meanFixationMs: 0,
+  saccadeCount: 0,
+  meanSaccadePx: 0,
+};
+
+interface GazePoint {
+  x: number;
+  y: number;
+  t: number;
+}
+
+/** 점들의 범위 (분산 = 가로 범위 + 세로 범위) */
+interface Bounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+function extend(b: Bounds, x: number, y: number): Bounds {
+  return {
+    minX: Math.min(b.minX, x),
+    maxX: Math.max(b.maxX, x),
+    minY: Math.min(b.minY, y),
+    maxY: Math.max(b.maxY, y),
+  };
+}
+
+function boundsOf(points: GazePoint[]): Bounds {
+  const { x, y } = points[0];
+  return points.reduce((b, p) => extend(b, p.x, p.y), { minX: x, maxX: x, minY: y, maxY: y });
+}
+
+function dispersion(b: Bounds): number {
+  return b.maxX - b.minX + (b.maxY - b.minY);
+}
+
+/**
+ * 온라인 I-DT 고정/도약 분류기.
+ * 창의 분산이 FIXATION_MAX_DISPERSION_PX 이하로 FIXATION_MIN_DURATION_MS 이상 유지되면 고정 시작,
+ * 새 점이 분산을 넘기면 고정 종료. 연속한 두 고정 사이를 도약으로 기록.
+ * 고정 중에는 점을 쌓지 않고 범위와 평균만 갱신 — 고정이 길어져도 프레임당 O(1).
+ */
+export class FixationDetector {
+  private window: GazePoint[] = []; // 고정 전 후보 창 (FIXATION_MIN_DURATION_MS 이내 길이)
+  private current: Fixation | null = null;
+  private bounds: Bounds | null = null; // 진행 중인 고정의 범위
+  private count = 0; // 진행 중인 고정의 점 수
+  private lastEnd: { x: number; y: number; t: number } | null = null;
+  private events: GazeEvent[] = [];
+  private totalFixationMs = 0;
+  private totalSaccadePx = 0;
+  private _stats: FixationStats = EMPTY_FIXATION_STATS;
+
+  get fixation(): Fixation | null {
+    return this.current;
+  }
+
+  get stats(): FixationStats {
+    return this._stats;
+  }
+
+  /** 유효한 시선 좌표 한 프레임 (tMs: 프레임 캡처 시각) */
+  update(x: number, y: number, tMs: number): void {
+    const point = { x, y, t: tMs };
+
+    if (this.current) {
+      const bounds = extend(this.bounds!, x, y);
+      if (dispersion(bounds) <= FIXATION_MAX_DISPERSION_PX) {
+        this.bounds = bounds;
+        const n = ++this.count;
+        this.current = {
+          ...this.current,
+          x: this.current.x + (x - this.current.x) / n,
+          y: this.current.y + (y - this.current.y) / n,
+          durationMs: tMs - this.current.startMs,
+        };
+        return;
+      }
+      // 창을 벗어남 → 고정 종료, 이 점부터 새 창
+      this.endFixation();
+      this.window = [point];
+      return;
+    }
+
+    // 고정 전: 분산이 임계값 이하가 되도록 오래된 점부터 버림
+    this.window.push(point);
+    while (this.window.length > 1 && dispersion(boundsOf(this.window)) > FIXATION_MAX_DISPERSION_PX) {
+      this.window.shift();
+    }
+    if (tMs - this.window[0].t >= FIXATION_MIN_DURATION_MS) this.startFixation();
+  }
+
+  /** 시선이 유효하지 않음 (눈 감음/얼굴 없음/미캘리브레이션) — 진행 중인 고정 종료 */
+  invalidate(): void {
+    if (this.current) this.endFixation();
+    this.window = [];
+  }
+
+  /** 마지막 호출 이후 발생한 이벤트 */
+  drainEvents(): GazeEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  reset(): void {
+    this.window = [];
+    this.current = null;
+    this.bounds = null;
+    this.lastEnd = null;
+    this.events = [];
+    this.totalFixationMs = 0;
+    this.totalSaccadePx = 0;
+    this._stats = EMPTY_FIXATION_STATS;
+  }
+
+  private startFixation(): void {
+    const n = this.window.length;
+    const x = this.window.reduce((s, p) => s + p.x, 0) / n;
+    const y = this.window.reduce((s, p) => s + p.y, 0) / n;
+    const startMs = this.window[0].t;
+    const t = this.window[n - 1].t;
+    this.current = { x, y, startMs, durationMs: t - startMs };
+    this.bounds = boundsOf(this.window);
+    this.count = n;
+    this.window = [];
+    this.events.push({ type: "fixation-start", t: startMs, x, y });
+
+    const prev = this.lastEnd;
+    if (prev && startMs - prev.t <= SACCADE_MAX_GAP_MS) {
+      const amplitudePx = Math.hypot(x - prev.x, y - prev.y);
+      this.events.push({
+        type: "saccade",
+        t: startMs,
+        fromX: prev.x,
+        fromY: prev.y,
+        toX: x,
+        toY: y,
+        amplitudePx,
+        durationMs: startMs - prev.t,
+      });
+      this.totalSaccadePx += amplitudePx;
+      this._stats = {
+        ...this._stats,
+        saccadeCount: this._stats.saccadeCount + 1,
+        meanSaccadePx: this.totalSaccadePx / (this._stats.saccadeCount + 1),
+      };
+    }
+  }
+
+  private endFixation(): void {
+    const f = this.current!;
+    const t = f.startMs + f.durationMs;
+    this.events.push({ type: "fixation-end", t, x: f.x, y: f.y, durationMs: f.durationMs });
+    this.lastEnd = { x: f.x, y: f.y, t };
+    this.current = null;
+    this.bounds = null;
+
+    this.totalFixationMs += f.durationMs;
+    this._stats = {
+      ...this._stats,
+      fixationCount: this._stats.fixationCount + 1,
+      meanFixationMs: this.totalFixationMs / (this._stats.fixationCount + 1),
+    };
+  }
+}
@@ -11,27 +11,142 @@ import {
   RIGHT_EYE_TOP,
   RIGHT_EYE_BOTTOM,
   NOSE_TIP,
-  SMOOTHING_ALPHA,
-  MOVING_AVG_SIZE,
-  MIN_MOVE_PX,
   CALIBRATION_OUTLIER_STD,
   RIDGE_LAMBDA,
   GAZE_SENSITIVITY,
+  EYE_UNSTABLE_RATIO,
+  DRIFT_AFFINE_MIN_POINTS,
+  DRIFT_RIDGE_LAMBDA,
+  IMPLICIT_MAX_BASE_DEGRADATION,
+  CV_LAMBDAS,
+  CV_RBF_GAMMAS,
+  CV_MAX_FOLDS,
+  CV_RBF_MAX_SAMPLES,
+  UNCERTAINTY_MIN_PX,
+  UNCERTAINTY_REGION_SIGMA,
+  UNCERTAINTY_FEATURE_FREE_STD,
+  UNCERTAINTY_PX_PER_STD,
+  UNCERTAINTY_JITTER_FRAMES,
 } from "../config";
+import {
+  createGazeFilter,
+  DEFAULT_FILTER_SETTINGS,
+  type FilterSettings,
+  type GazeFilter,
+} from "./gazeFilters";
+import { hasPose, headMotion, meanPose, type HeadMotion, type HeadPose } from "./headPose";
+import {
+  irisDistanceCm,
+  hasDistance,
+  distanceRange,
+  type DistanceRange,
+} from "./viewingDistance";
+import { toNormalized, toScreen } from "../display";
 
 export interface GazeFeatures {
-  rx: number;
+  rx: number; // 양쪽 평균 (표시용 — 회귀는 눈별 값을 가중 결합해 사용)
   ry: number;
   hx: number; // 머리 회전 수평 (코 끝 - 얼굴 중심, 정규화)
   hy: number; // 머리 회전 수직
   nx: number; // 절대 얼굴 위치 X (카메라 정규화 좌표, 머리 이동 보상용)
   ny: number; // 절대 얼굴 위치 Y
   ey: number; // 눈꺼풀 열림 높이 (위쪽 시선 보상용)
+  // 3D 머리 자세 (MediaPipe 변환 행렬, 도/cm) — 행렬이 없으면 모두 0
+  yaw: number;
+  pitch: number;
+  roll: number;
+  tx: number;
+  ty: number;
+  tz: number;
+  dist: number; // 홍채 크기로 추정한 카메라까지 거리 (cm) — 회귀에는 쓰지 않고 자세 안내용
+  // 눈별 특징 (환자 기준 왼쪽/오른쪽) — 한쪽 안검하수/마비 대응
+  lrx: number;
+  lry: number;
+  ley: number;
+  rrx: number;
+  rry: number;
+  rey: number;
 }
 
 export interface CalibrationSample extends GazeFeatures {
   screenX: number;
   screenY: number;
+  /** 포인트 수집 중 눈별 홍채 떨림 (표준편차) — 불안정한 눈 자동 감쇠용 */
+  leftJitter?: number;
+  rightJitter?: number;
+}
+
+/** 시선 추정에 사용할 눈 (환자 기준) */
+export type EyeChoice = "both" | "left" | "right";
+
+export interface EyeWeights {
+  left: number;
+  right: number;
+}
+
+export const EQUAL_EYE_WEIGHTS: EyeWeights = { left: 0.5, right: 0.5 };
+
+/**
+ * 드리프트 보정 — 회귀 예측 위에 얹는 affine 보정 (원래 캘리브레이션은 유지).
+ * Δ = c[0] + c[1]·u + c[2]·v  (u, v = 화면 크기로 정규화한 예측 좌표, Δ는 px)
+ */
+export interface DriftCorrection {
+  x: number[];
+  y: number[];
+  pointCount: number;
+  meanShiftPx: number; // 보정 지점들의 평균 이동량
+}
+
+/** 후보 특징 집합 — 캘리브레이션마다 교차 검증으로 환자별 선택 (-pose: 3D 머리 자세로 머리 움직임 보상) */
+export type FeatureSet =
+  | "linear"
+  | "linear-head"
+  | "linear-pose"
+  | "quadratic"
+  | "quadratic-head"
+  | "quadratic-pose"
+  | "rbf";
+
+export interface ModelSpec {
+  featureSet: FeatureSet;
+  lambda: number; // 릿지 정규화 계수
+  gamma?: number; // rbf 커널 폭 (표준화된 입력 공간 기준)
+}
+
+/** 기존 고정 모델 — 이상치 제거용 1차 피팅 */
+export const DEFAULT_MODEL_SPEC: ModelSpec = { featureSet: "quadratic-head", lambda: RIDGE_LAMBDA };
+
+/**
+ * RBF 기저: linear-head 항을 표준화한 입력 공간에서 학습 샘플마다 가우시안 하나.
+ * 예측 = 절편 + Σ c_i · exp(-γ‖z − center_i‖²)
+ */
+export interface RbfBasis {
+  inputMean: number[];
+  inputStd: number[];
+  centers: number[][];
+  gamma: number;
+}
+
+/** 피팅 결과 (눈 가중치/진단 제외) */
+export interface FittedModel {
+  spec: ModelSpec;
+  coeffsX: number[];
+  coeffsY: number[];
+  featMean: number[];
+  featStd: number[];
+  rbf: RbfBasis | null;
+}
+
+/** 저장/복원용 학습 결과 (스무딩 상태 제외) — 계수는 0~1 정규화 화면 좌표 기준 */
+export interface GazeModel {
+  coeffsX: number[];
+  coeffsY: number[];
+  featMean: number[];
+  featStd: number[];
+  spec: ModelSpec;
+  rbf: RbfBasis | null;
+  eyeWeights: EyeWeights;
+  diagnostics: CalibrationDiagnostics | null;
 }
 
 export interface CalibrationDiagnostics {
@@ -44,6 +159,12 @@ export interface CalibrationDiagnostics {
   predRangeY: [number, number];
   coverageX: number;
   coverageY: number;
+  eyeWeights: EyeWeights;
+  model: ModelSpec; // 교차 검증으로 선택된 모델
+  cvErrorPx?: number; // 선택된 모델의 leave-one-point-out 평균 오차
+  headPose: HeadPose | null; // 캘리브레이션 중 평균 머리 자세 (사용 중 움직임의 기준, 변환 행렬이 없었으면 null)
+  headMotion: HeadMotion | null; // 캘리브레이션 포인트 간 머리 움직임
+  distance?: DistanceRange; // 캘리브레이션 때 카메라까지 거리 (벗어나면 자세 안내)
   perPoint: Array<{
     screenX: number;
     screenY: number;
@@ -53,19 +174,118 @@ export interface CalibrationDiagnostics {
   }>;
 }
 
+/** 시선 예측 + 오차 반경 (px) — 화면 밖 예측은 잘라냄 */
+export interface GazePrediction {
+  x: number;
+  y: number;
+  errorPx: number;
+}
+
+/** 모델 요약 (로그/보호자 화면 표시용) */
+export function modelLabel(spec: ModelSpec): string {
+  return spec.featureSet === "rbf"
+    ? `rbf γ=${spec.gamma} λ=${spec.lambda}`
+    : `${spec.featureSet} λ=${spec.lambda}`;
+}
+
+/** 특징에 담긴 머리 자세 */
+export function poseOf(f: GazeFeatures): HeadPose {
+  return { yaw: f.yaw, pitch: f.pitch, roll: f.roll, tx: f.tx, ty: f.ty, tz: f.tz };
+}
+
 // --- Minimal linear algebra ---
 
 /**
- * 확장 특징 벡터: [1, rx, ry, hx, hy, nx, ny, ey, rx*ry, rx², ry²] (11개)
+ * 다항 특징 항 (절편 포함). quadratic-head가 기존 고정 모델:
+ * [1, rx, ry, hx, hy, nx, ny, ey, rx*ry, rx², ry²] (11개)
  *
+ * rx, ry, ey: 눈별 값을 eyeWeights로 가중 결합 (처진 눈꺼풀이 양쪽 특징을 오염시키지 않도록)
  * nx, ny: 절대 얼굴 위치 → 머리 이동(translation) 보상
- * hx, hy: 얼굴 내 상대 코 위치 → 머리 회전(rotation) 보상
+ * hx, hy: 얼굴 내 상대 코 위치 → 머리 회전(rotation) 보상 (2D 근사 — 얼굴 생김새와 섞임)
+ * -pose 집합은 hx, hy, nx, ny 대신 3D 자세 (yaw, pitch, roll, tx, ty, tz)로 회전/이동을 분리해 보상
  * ey: 눈꺼풀 열림 높이 → 위쪽 시선 보상 (홍채 ry만으로는 위 시선 감지 불충분)
  *   위를 볼 때 윗꺼풀이 열리고, 아래를 볼 때 좁아짐 → 수직 시선의 강력한 보조 신호
  */
-function polyFeatures(f: GazeFeatures): number[] {
-  const { rx, ry, hx, hy, nx, ny, ey } = f;
-  return [1, rx, ry, hx, hy, nx, ny, ey, rx * ry, rx * rx, ry * ry];
+function polyFeatures(
+  f: GazeFeatures,
+  w: EyeWeights,
+  set: Exclude<FeatureSet, "rbf">
+): number[] {
+  const { hx, hy, nx, ny } = f;
+  const rx = w.left * f.lrx + w.right * f.rrx;
+  const ry = w.left * f.lry + w.right * f.rry;
+  const ey = w.left * f.ley + w.right * f.rey;
+  switch (set) {
+    case "linear":
+      return [1, rx, ry, ey];
+    case "linear-head":
+      return [1, rx, ry, hx, hy, nx, ny, ey];
+    case "quadratic":
+      return [1, rx, ry, ey, rx * ry, rx * rx, ry * ry];
+    case "quadratic-head":
+      return [1, rx, ry, hx, hy, nx, ny, ey, rx * ry, rx * rx, ry * ry];
+    case "linear-pose":
+      return [1, rx, ry, ey, ...posePart(f)];
+    case "quadratic-pose":
+      return [1, rx, ry, ey, rx * ry, rx * rx, ry * ry, ...posePart(f)];
+  }
+}
+
+function posePart(f: GazeFeatures): number[] {
+  return [f.yaw, f.pitch, f.roll, f.tx, f.ty, f.tz];
+}
+
+const TERM_NAMES: Record<Exclude<FeatureSet, "rbf">, string[]> = {
+  linear: ["(intercept)", "rx", "ry", "ey"],
+  "linear-head": ["(intercept)", "rx", "ry", "hx", "hy", "nx", "ny", "ey"],
+  quadratic: ["(intercept)", "rx", "ry", "ey", "rx*ry", "rx²", "ry²"],
+  "quadratic-head": ["(intercept)", "rx", "ry", "hx", "hy", "nx", "ny", "ey", "rx*ry", "rx²", "ry²"],
+  "linear-pose": ["(intercept)", "rx", "ry", "ey", "yaw", "pitch", "roll", "tx", "ty", "tz"],
+  "quadratic-pose": [
+    "(intercept)",
+    "rx",
+    "ry",
+    "ey",
+    "rx*ry",
+    "rx²",
+    "ry²",
+    "yaw",
+    "pitch",
+    "roll",
+    "tx",
+    "ty",
+    "tz",
+  ],
+};
+
+function rbfInput(f: GazeFeatures, w: EyeWeights, rbf: RbfBasis): number[] {
+  return polyFeatures(f, w, "linear-head")
+    .slice(1)
+    .map((v, j) => (v - rbf.inputMean[j]) / rbf.inputStd[j]);
+}
+
+function rbfBasis(samples: CalibrationSample[], w: EyeWeights, gamma: number): RbfBasis {
+  const { mean, std } = featureStats(samples.map((s) => polyFeatures(s, w, "linear-head")));
+  const basis: RbfBasis = { inputMean: mean.slice(1), inputStd: std.slice(1), centers: [], gamma };
+  basis.centers = samples.map((s) => rbfInput(s, w, basis));
+  return basis;
+}
+
+/** 모델의 회귀 항 (절편 포함, 정규화 전) */
+function modelTerms(
+  f: GazeFeatures,
+  w: EyeWeights,
+  spec: ModelSpec,
+  rbf: RbfBasis | null
+): number[] {
+  if (spec.featureSet !== "rbf") return polyFeatures(f, w, spec.featureSet);
+  const z = rbfInput(f, w, rbf!);
+  return [
+    1,
+    ...rbf!.centers.map((c) =>
+      Math.exp(-rbf!.gamma * c.reduce((sum, v, j) => sum + (v - z[j]) ** 2, 0))
+    ),
+  ];
 }
 
 function transpose(A: number[][]): number[][] {
@@ -154,6 +374,21 @@ function solveLeastSquares(
   return gaussianSolve(AtA, Atb);
 }
 
+/** 행별 가중치 적용 릿지 (√w로 행 스케일링) */
+function solveWeightedLeastSquares(
+  A: number[][],
+  b: number[],
+  weights: number[],
+  lambda: number
+): number[] | null {
+  const sw = weights.map(Math.sqrt);
+  return solveLeastSquares(
+    A.map((row, i) => row.map((v) => v * sw[i])),
+    b.map((v, i) => v * sw[i]),
+    lambda
+  );
+}
+
 // --- Outlier rejection ---
 
 function removeOutliers(values: number[], stdMultiplier: number): number[] {
@@ -166,30 +401,363 @@ function removeOutliers(values: number[], stdMultiplier: number): number[] {
   return values.filter((v) => Math.abs(v - mean) <= stdMultiplier * std);
 }
 
+// --- Model fitting / selection ---
+
+/**
+ * 특징 열별 평균/표준편차 (column 0 = 절편은 제외).
+ * 릿지 회귀가 모든 특징에 균등하게 적용되려면 스케일 통일 필수.
+ * (rx ≈ [0.2, 0.8] vs ry ≈ [-0.05, 0.05] 같은 차이가 있으면
+ *  릿지가 작은 값의 계수를 과도하게 압축함)
+ */
+function featureStats(rawA: number[][]): { mean: number[]; std: number[] } {
+  const nCols = rawA[0].length;
+  const n = rawA.length;
+  const mean = Array(nCols).fill(0);
+  const std = Array(nCols).fill(1);
+
+  // column 0은 상수항(1)이므로 정규화하지 않음
+  for (let j = 1; j < nCols; j++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += rawA[i][j];
+    mean[j] = sum / n;
+  }
+  for (let j = 1; j < nCols; j++) {
+    let sumSq = 0;
+    for (let i = 0; i < n; i++) sumSq += (rawA[i][j] - mean[j]) ** 2;
+    std[j] = Math.sqrt(sumSq / n);
+    if (std[j] < 1e-9) std[j] = 1; // 상수 열 보호
+  }
+  return { mean, std };
+}
+
+function normalizeRow(row: number[], mean: number[], std: number[]): number[] {
+  return row.map((v, j) => (j === 0 ? 1 : (v - mean[j]) / std[j]));
+}
+
+/**
+ * 모델 하나 피팅 (rowWeights: 행별 가중치 — 암묵적 재캘리브레이션 샘플).
+ * 샘플은 현재 창 px, 회귀 목표는 창 크기로 나눈 0~1 → 창 크기/배율이 바뀌어도 계수 그대로 사용.
+ */
+function fitModel(
+  samples: CalibrationSample[],
+  w: EyeWeights,
+  spec: ModelSpec,
+  rowWeights?: number[]
+): FittedModel | null {
+  return fitNormalized(toNormalized(samples), w, spec, rowWeights);
+}
+
+/** samples: 0~1 정규화 화면 좌표 — window를 쓰지 않으므로 워커에서도 실행 가능 */
+function fitNormalized(
+  samples: CalibrationSample[],
+  w: EyeWeights,
+  spec: ModelSpec,
+  rowWeights?: number[]
+): FittedModel | null {
+  const rbf = spec.featureSet === "rbf" ? rbfBasis(samples, w, spec.gamma ?? 0) : null;
+  const rawA = samples.map((s) => modelTerms(s, w, spec, rbf));
+  const { mean, std } = featureStats(rawA);
+  const A = rawA.map((row) => normalizeRow(row, mean, std));
+  const weights = rowWeights ?? samples.map(() => 1);
+  const coeffsX = solveWeightedLeastSquares(A, samples.map((s) => s.screenX), weights, spec.lambda);
+  const coeffsY = solveWeightedLeastSquares(A, samples.map((s) => s.screenY), weights, spec.lambda);
+  if (!coeffsX || !coeffsY) return null;
+  return { spec, coeffsX, coeffsY, featMean: mean, featStd: std, rbf };
+}
+
+/** 회귀 예측 — 0~1 정규화 화면 좌표 */
+function predictNormalized(m: FittedModel, f: GazeFeatures, w: EyeWeights): { x: number; y: number } {
+  const feat = normalizeRow(modelTerms(f, w, m.spec, m.rbf), m.featMean, m.featStd);
+  return {
+    x: feat.reduce((sum, v, j) => sum + v * m.coeffsX[j], 0),
+    y: feat.reduce((sum, v, j) => sum + v * m.coeffsY[j], 0),
+  };
+}
+
+/** 회귀 예측 — 현재 창 px (민감도/드리프트 보정 전) */
+function regress(m: FittedModel, f: GazeFeatures, w: EyeWeights): { x: number; y: number } {
+  const p = predictNormalized(m, f, w);
+  return { x: p.x * window.innerWidth, y: p.y * window.innerHeight };
+}
+
+/**
+ * leave-one-point-out 교차 검증 평균 오차 (px).
+ * 샘플이 CV_MAX_FOLDS보다 많으면 (움직이는 점) 연속 구간 단위로 제외 — 인접 샘플끼리 정보가 새지 않도록.
+ */
+function crossValidate(samples: CalibrationSample[], w: EyeWeights, spec: ModelSpec): number {
+  const n = samples.length;
+  const folds = Math.min(n, CV_MAX_FOLDS);
+  const foldOf = (i: number) => Math.floor((i * folds) / n);
+
+  let total = 0;
+  for (let k = 0; k < folds; k++) {
+    const model = fitModel(samples.filter((_, i) => foldOf(i) !== k), w, spec);
+    if (!model) return Infinity;
+    samples.forEach((s, i) => {
+      if (foldOf(i) !== k) return;
+      const p = regress(model, s, w);
+      total += Math.hypot(p.x - s.screenX, p.y - s.screenY);
+    });
+  }
+  return total / n;
+}
+
+// --- Prediction uncertainty ---
+
+/** 외삽 판정용 캘리브레이션 샘플의 눈 특징 (rx, ry, ey — 표준화) */
+interface FeatureReference {
+  mean: number[];
+  std: number[];
+  points: number[][];
+}
+
+function eyeTerms(f: GazeFeatures, w: EyeWeights): number[] {
+  return polyFeatures(f, w, "linear").slice(1);
+}
+
+function featureReference(samples: CalibrationSample[], w: EyeWeights): FeatureReference | null {
+  if (samples.length === 0) return null;
+  const { mean, std } = featureStats(samples.map((s) => [1, ...eyeTerms(s, w)]));
+  const ref = { mean: mean.slice(1), std: std.slice(1), points: [] as number[][] };
+  ref.points = samples.map((s) => standardize(eyeTerms(s, w), ref));
+  return ref;
+}
+
+function standardize(v: number[], ref: FeatureReference): number[] {
+  return v.map((x, j) => (x - ref.mean[j]) / ref.std[j]);
+}
+
+/** 가장 가까운 캘리브레이션 샘플까지 거리 (표준편차 단위) */
+function nearestSampleDistance(f: GazeFeatures, w: EyeWeights, ref: FeatureReference): number {
+  const z = standardize(eyeTerms(f, w), ref);
+  let best = Infinity;
+  for (const p of ref.points) {
+    best = Math.min(best, Math.hypot(...p.map((v, j) => v - z[j])));
+  }
+  return best;
+}
+
+/**
+ * 예측 지점 주변 캘리브레이션 잔차 (가우시안 가중 RMS).
+ * 학습 잔차는 실제 오차보다 작으므로 교차 검증 오차/학습 오차 비율로 키움.
+ */
+function regionalResidual(x: number, y: number, d: CalibrationDiagnostics): number {
+  const sigma = UNCERTAINTY_REGION_SIGMA * Math.hypot(window.innerWidth, window.innerHeight);
+  let sumW = 0;
+  let sumSq = 0;
+  for (const p of d.perPoint) {
+    const wt = Math.exp(-((p.screenX - x) ** 2 + (p.screenY - y) ** 2) / (2 * sigma * sigma));
+    sumW += wt;
+    sumSq += wt * p.errorPx ** 2;
+  }
+  if (sumW < 1e-9) return d.meanErrorPx;
+  const scale = d.cvErrorPx && d.meanErrorPx > 0 ? Math.max(1, d.cvErrorPx / d.meanErrorPx) : 1;
+  return Math.sqrt(sumSq / sumW) * scale;
+}
+
+function candidateSpecs(samples: CalibrationSample[]): ModelSpec[] {
+  const sampleCount = samples.length;
+  const featureSets: Exclude<FeatureSet, "rbf">[] = ["linear", "linear-head", "quadratic", "quadratic-head"];
+  // 머리 자세가 없는 샘플 (변환 행렬 없음)이 섞이면 자세 특징 제외
+  if (samples.every(hasPose)) featureSets.push("linear-pose", "quadratic-pose");
+  const specs: ModelSpec[] = [];
+  for (const featureSet of featureSets) {
+    for (const lambda of CV_LAMBDAS) specs.push({ featureSet, lambda });
+  }
+  // RBF는 샘플 수만큼 항이 생김 → 샘플이 많으면 (움직이는 점) 피팅 비용이 커서 제외
+  if (sampleCount <= CV_RBF_MAX_SAMPLES) {
+    for (const gamma of CV_RBF_GAMMAS) {
+      for (const lambda of CV_LAMBDAS) specs.push({ featureSet: "rbf", lambda, gamma });
+    }
+  }
+  return specs;
+}
+
+/** 후보 모델마다 교차 검증 → 평균 오차가 가장 작은 모델 */
+function selectModel(
+  samples: CalibrationSample[],
+  w: EyeWeights
+): { spec: ModelSpec; cvErrorPx: number; candidates: number } {
+  const specs = candidateSpecs(samples);
+  let best = { spec: DEFAULT_MODEL_SPEC, cvErrorPx: Infinity };
+  for (const spec of specs) {
+    const cvErrorPx = crossValidate(samples, w, spec);
+    if (cvErrorPx < best.cvErrorPx) best = { spec, cvErrorPx };
+  }
+  return { ...best, candidates: specs.length };
+}
+
+// --- Implicit refit ---
+
+/** 암묵적 재피팅 요청 — 워커로 보낼 수 있는 값만 (화면 좌표는 0~1 정규화) */
+export interface RefitRequest {
+  base: CalibrationSample[]; // 캘리브레이션 포인트
+  extra: CalibrationSample[]; // 확정된 선택
+  extraWeight: number;
+  weights: EyeWeights;
+  current: FittedModel; // 지금 모델 — 구조(spec)는 그대로 두고 계수만 다시 피팅
+  screen: { w: number; h: number }; // 오차를 px로 비교할 창 크기
+}
+
+export interface RefitResult {
+  fitted: FittedModel | null; // 피팅 실패면 null
+  baseErrorPx: [number, number]; // 캘리브레이션 포인트 평균 오차 (현재 → 새 모델)
+  extraErrorPx: [number, number]; // 선택 샘플 평균 오차 (현재 → 새 모델)
+}
+
+/** 선택된 모델 구조로 계수만 다시 피팅하고 오차 비교 — 모델 선택/교차 검증 없음, window 없이 실행 (재피팅 워커) */
+export function refitCoefficients(req: RefitRequest): RefitResult {
+  const { base, extra, weights, current, screen } = req;
+  const all = [...base, ...extra];
+  const rowWeights = all.map((_, i) => (i < base.length ? 1 : req.extraWeight));
+  const fitted = fitNormalized(all, weights, current.spec, rowWeights);
+
+  const meanErrorPx = (m: FittedModel | null, samples: CalibrationSample[]) => {
+    if (!m) return Infinity;
+    const total = samples.reduce((sum, s) => {
+      const p = predictNormalized(m, s, weights);
+      return sum + Math.hypot((p.x - s.screenX) * screen.w, (p.y - s.screenY) * screen.h);
+    }, 0);
+    return total / samples.length;
+  };
+  return {
+    fitted,
+    baseErrorPx: [meanErrorPx(current, base), meanErrorPx(fitted, base)],
+    extraErrorPx: [meanErrorPx(current, extra), meanErrorPx(fitted, extra)],
+  };
+}
+
 // --- GazeMapper ---
 
 export class GazeMapper {
-  private coeffsX: number[] | null = null;
-  private coeffsY: number[] | null = null;
+  private fitted: FittedModel | null = null;
   // 특징 정규화 파라미터 (캘리브레이션 시 저장)
-  private featMean: number[] | null = null;
-  private featStd: number[] | null = null;
-  private smoothX = 0;
-  private smoothY = 0;
-  private outputX = 0;
-  private outputY = 0;
-  private firstPrediction = true;
-  private bufX: number[] = [];
-  private bufY: number[] = [];
+  private filter: GazeFilter = createGazeFilter(DEFAULT_FILTER_SETTINGS);
 
   /** 마지막 캘리브레이션 진단 결과 */
   public lastDiagnostics: CalibrationDiagnostics | null = null;
 
+  /** 자세 변화 보정 (없으면 null) — 전체 캘리브레이션 시 초기화 */
+  public driftCorrection: DriftCorrection | null = null;
+
+  /** 현재 모델의 캘리브레이션 샘플 (암묵적 재피팅의 기준 데이터) — 0~1 정규화 좌표 */
+  private baseSamples: CalibrationSample[] = [];
+  /** 진단(px)을 계산한 창 크기 — 바뀌면 다시 계산 */
+  private diagnosticsSize = { w: 0, h: 0 };
+  private featureRef: FeatureReference | null = null;
+
+  /** 최근 필터 전 예측 (떨림 → 오차 반경) */
+  private recentRaw: { x: number; y: number }[] = [];
+
+  /** 프로필의 사용 가능한 눈 설정 (캘리브레이션 시 가중치 결정에 사용) */
+  private _eyeChoice: EyeChoice = "both";
+  private weights: EyeWeights = EQUAL_EYE_WEIGHTS;
+
+  get eyeChoice(): EyeChoice {
+    return this._eyeChoice;
+  }
+
+  get eyeWeights(): EyeWeights {
+    return this.weights;
+  }
+
+  /** 설정 변경 후에는 재캘리브레이션 필요 (가중 결합 특징으로 회귀가 학습되어 있음) */
+  setEyeChoice(choice: EyeChoice): void {
+    this._eyeChoice = choice;
+    if (!this.isCalibrated) this.weights = GazeMapper.eyeWeightsFor(choice);
+  }
+
+  /**
+   * 눈별 가중치.
+   * - left/right: 해당 눈만 사용
+   * - both: 캘리브레이션 중 한쪽 눈의 떨림이 EYE_UNSTABLE_RATIO배 이상 크면
+   *   역분산 가중으로 그 눈의 비중을 낮춤 (그 외엔 동일 가중)
+   */
+  static eyeWeightsFor(choice: EyeChoice, samples: CalibrationSample[] = []): EyeWeights {
+    if (choice === "left") return { left: 1, right: 0 };
+    if (choice === "right") return { left: 0, right: 1 };
+
+    const median = (vals: number[]) => {
+      const sorted = [...vals].sort((a, b) => a - b);
+      return sorted[Math.floor(sorted.length / 2)];
+    };
+    const withJitter = samples.filter(
+      (s) => s.leftJitter !== undefined && s.rightJitter !== undefined
+    );
+    if (withJitter.length === 0) return EQUAL_EYE_WEIGHTS;
+
+    const jL = Math.max(median(withJitter.map((s) => s.leftJitter!)), 1e-6);
+    const jR = Math.max(median(withJitter.map((s) => s.rightJitter!)), 1e-6);
+    const ratio = Math.max(jL, jR) / Math.min(jL, jR);
+    if (ratio < EYE_UNSTABLE_RATIO) return EQUAL_EYE_WEIGHTS;
+
+    const invL = 1 / (jL * jL);
+    const invR = 1 / (jR * jR);
+    return { left: invL / (invL + invR), right: invR / (invL + invR) };
+  }
+
   get isCalibrated(): boolean {
-    return this.coeffsX !== null;
+    return this.fitted !== null;
   }
 
-  private irisCenter(
+  /** 현재 학습 결과 (미캘리브레이션이면 null) */
+  exportModel(): GazeModel | null {
+    if (!this.fitted) return null;
+    return {
+      ...this.fitted,
+      eyeWeights: this.weights,
+      diagnostics: this.lastDiagnostics,
+    };
+  }
+
+  /** 현재 모델의 캘리브레이션 샘플 (0~1 정규화 좌표, 저장용) */
+  exportSamples(): CalibrationSample[] {
+    return this.baseSamples;
+  }
+
+  /** 저장된 학습 결과 복원 — 캘리브레이션 없이 바로 예측 가능. samples: 0~1 정규화 좌표 */
+  loadModel(model: GazeModel, samples: CalibrationSample[] = []): void {
+    this.baseSamples = samples;
+    this.fitted = {
+      spec: model.spec,
+      coeffsX: model.coeffsX,
+      coeffsY: model.coeffsY,
+      featMean: model.featMean,
+      featStd: model.featStd,
+      rbf: model.rbf,
+    };
+    this.weights = model.eyeWeights;
+    this.featureRef = featureReference(samples, this.weights);
+    this.lastDiagnostics = model.diagnostics;
+    this.driftCorrection = null;
+    this.resetSmoothing();
+    // 진단 px는 저장 당시 창 크기 기준 → 샘플이 있으면 지금 창 기준으로 다시 계산
+    if (samples.length > 0) this.refreshDiagnostics();
+  }
+
+  /**
+   * 창 크기/배율이 바뀌었으면 진단(px)을 다시 계산하고 px 단위 드리프트 보정은 버림.
+   * 회귀 자체는 정규화 좌표라 그대로 유효.
+   */
+  private syncScreenSize(): void {
+    const { w, h } = this.diagnosticsSize;
+    if (w === window.innerWidth && h === window.innerHeight) return;
+    if (w > 0 && this.driftCorrection) {
+      console.log("[Calibration] 창 크기 변경 — 드리프트 보정 해제");
+      this.driftCorrection = null;
+    }
+    if (this.baseSamples.length > 0) this.refreshDiagnostics();
+    else this.diagnosticsSize = { w: window.innerWidth, h: window.innerHeight };
+  }
+
+  private refreshDiagnostics(): void {
+    this.lastDiagnostics = this.computeDiagnostics(
+      toScreen(this.baseSamples),
+      this.lastDiagnostics?.cvErrorPx
+    );
+  }
+
+  private static irisCenter(
     landmarks: Landmarks,
     indices: number[]
   ): { x: number; y: number } {
@@ -209,10 +777,13 @@ export class GazeMapper {
    * 기존 눈꺼풀 상단/하단 기준은 위를 볼 때 눈꺼풀이 함께 올라가서
    * ry 변화가 거의 없었음 → 상단 추적 정확도 저하 원인.
    * 눈꼬리는 뼈 위의 고정점이라 시선 방향에 무관하게 안정적.
+   *
+   * 캘리브레이션 상태와 무관한 순수 함수 → 추론 워커에서 호출
+   * pose: 얼굴 변환 행렬에서 얻은 머리 자세 (없으면 0 — 자세 특징 모델은 후보에서 제외됨)
    */
-  extractFeatures(landmarks: Landmarks): GazeFeatures {
+  static extractFeatures(landmarks: Landmarks, pose: HeadPose | null = null): GazeFeatures {
     // Left eye iris relative position
-    const lc = this.irisCenter(landmarks, LEFT_IRIS);
+    const lc = GazeMapper.irisCenter(landmarks, LEFT_IRIS);
     const lInner = landmarks[LEFT_EYE_INNER];
     const lOuter = landmarks[LEFT_EYE_OUTER];
     const lW = Math.abs(lOuter.x - lInner.x);
@@ -221,7 +792,7 @@ export class GazeMapper {
     const lRy = lW > 1e-6 ? (lc.y - lMidY) / lW : 0; // 눈 너비로 정규화
 
     // Right eye iris relative position
-    const rc = this.irisCenter(landmarks, RIGHT_IRIS);
+    const rc = GazeMapper.irisCenter(landmarks, RIGHT_IRIS);
     const rInner = landmarks[RIGHT_EYE_INNER];
     const rOuter = landmarks[RIGHT_EYE_OUTER];
     const rW = Math.abs(rOuter.x - rInner.x);
@@ -249,7 +820,6 @@ export class GazeMapper {
     const rLidOpen = rW > 1e-6
       ? (landmarks[RIGHT_EYE_BOTTOM].y - landmarks[RIGHT_EYE_TOP].y) / rW
       : 0;
-    const ey = (lLidOpen + rLidOpen) / 2;
 
     return {
       rx: (lRx + rRx) / 2,
@@ -258,71 +828,44 @@ export class GazeMapper {
       hy,
       nx: nose.x, // 절대 얼굴 위치 (카메라 정규화 좌표 0~1)
       ny: nose.y,
-      ey,
+      ey: (lLidOpen + rLidOpen) / 2,
+      yaw: pose?.yaw ?? 0,
+      pitch: pose?.pitch ?? 0,
+      roll: pose?.roll ?? 0,
+      tx: pose?.tx ?? 0,
+      ty: pose?.ty ?? 0,
+      tz: pose?.tz ?? 0,
+      dist: irisDistanceCm(landmarks),
+      lrx: lRx,
+      lry: lRy,
+      ley: lLidOpen,
+      rrx: rRx,
+      rry: rRy,
+      rey: rLidOpen,
     };
   }
 
-  /**
-   * 특징 벡터를 정규화 (column 0 = intercept는 제외).
-   * 릿지 회귀가 모든 특징에 균등하게 적용되려면 스케일 통일 필수.
-   * (rx ≈ [0.2, 0.8] vs ry ≈ [-0.05, 0.05] 같은 차이가 있으면
-   *  릿지가 작은 값의 계수를 과도하게 압축함)
-   */
-  private normalizeFeatures(rawA: number[][]): number[][] {
-    const nCols = rawA[0].length;
-    const n = rawA.length;
-    const mean = Array(nCols).fill(0);
-    const std = Array(nCols).fill(1);
-
-    // column 0은 상수항(1)이므로 정규화하지 않음
-    for (let j = 1; j < nCols; j++) {
-      let sum = 0;
-      for (let i = 0; i < n; i++) sum += rawA[i][j];
-      mean[j] = sum / n;
-    }
-    for (let j = 1; j < nCols; j++) {
-      let sumSq = 0;
-      for (let i = 0; i < n; i++) sumSq += (rawA[i][j] - mean[j]) ** 2;
-      std[j] = Math.sqrt(sumSq / n);
-      if (std[j] < 1e-9) std[j] = 1; // 상수 열 보호
-    }
-
-    this.featMean = mean;
-    this.featStd = std;
-
-    return rawA.map((row) =>
-      row.map((v, j) => (j === 0 ? 1 : (v - mean[j]) / std[j]))
-    );
-  }
-
-  private applyNormalization(feat: number[]): number[] {
-    if (!this.featMean || !this.featStd) return feat;
-    return feat.map((v, j) =>
-      j === 0 ? 1 : (v - this.featMean![j]) / this.featStd![j]
-    );
-  }
-
   calibrate(samples: CalibrationSample[]): boolean {
     if (samples.length < 10) return false;
 
-    // --- 1차 피팅 ---
-    let currentSamples = samples;
-    let rawA = currentSamples.map((s) => polyFeatures(s));
-    let A = this.normalizeFeatures(rawA);
-    let bx = currentSamples.map((s) => s.screenX);
-    let by = currentSamples.map((s) => s.screenY);
+    // --- 눈별 가중치 (불안정한 눈 자동 감쇠) ---
+    const weights = GazeMapper.eyeWeightsFor(this.eyeChoice, samples);
+    if (weights !== EQUAL_EYE_WEIGHTS && this.eyeChoice === "both") {
+      console.log(
+        `%c[Calibration] 불안정한 눈 감쇠: 왼쪽 ${(weights.left * 100).toFixed(0)}% / 오른쪽 ${(weights.right * 100).toFixed(0)}%`,
+        "color: #ff8800; font-weight: bold"
+      );
+    }
 
-    let cx = solveLeastSquares(A, bx, RIDGE_LAMBDA);
-    let cy = solveLeastSquares(A, by, RIDGE_LAMBDA);
-    if (!cx || !cy) return false;
+    // --- 1차 피팅 (기존 고정 모델) ---
+    const first = fitModel(samples, weights, DEFAULT_MODEL_SPEC);
+    if (!first) return false;
 
-    // --- 이상치 자동 제거 + 2차 피팅 ---
+    // --- 이상치 자동 제거 ---
     // 1차 피팅 잔차 계산 → median의 2.5배 이상이고 50px 초과인 포인트 제거
-    const residuals = currentSamples.map((s, i) => {
-      const feat = A[i];
-      const predX = feat.reduce((sum, f, j) => sum + f * cx![j], 0);
-      const predY = feat.reduce((sum, f, j) => sum + f * cy![j], 0);
-      return Math.hypot(predX - s.screenX, predY - s.screenY);
+    const residuals = samples.map((s) => {
+      const p = regress(first, s, weights);
+      return Math.hypot(p.x - s.screenX, p.y - s.screenY);
     });
 
     const sortedRes = [...residuals].sort((a, b) => a - b);
@@ -332,8 +875,9 @@ export class GazeMapper {
     const cleanIndices = residuals
       .map((r, i) => (r <= outlierThreshold ? i : -1))
       .filter((i) => i >= 0);
-    const removedCount = currentSamples.length - cleanIndices.length;
+    const removedCount = samples.length - cleanIndices.length;
 
+    let currentSamples = samples;
     if (removedCount > 0 && cleanIndices.length >= 10) {
       console.log(
         `%c[Calibration] Outlier rejection: removed ${removedCount} points (threshold: ${outlierThreshold.toFixed(0)}px, median: ${medianError.toFixed(0)}px)`,
@@ -342,44 +886,88 @@ export class GazeMapper {
       residuals.forEach((r, i) => {
         if (r > outlierThreshold) {
           console.log(
-            `  Removed point #${i + 1}: error=${r.toFixed(0)}px at (${currentSamples[i].screenX.toFixed(0)}, ${currentSamples[i].screenY.toFixed(0)})`
+            `  Removed point #${i + 1}: error=${r.toFixed(0)}px at (${samples[i].screenX.toFixed(0)}, ${samples[i].screenY.toFixed(0)})`
           );
         }
       });
-
-      // 클린 데이터로 2차 피팅
       currentSamples = cleanIndices.map((i) => samples[i]);
-      rawA = currentSamples.map((s) => polyFeatures(s));
-      A = this.normalizeFeatures(rawA); // 정규화도 다시 계산
-      bx = currentSamples.map((s) => s.screenX);
-      by = currentSamples.map((s) => s.screenY);
-
-      cx = solveLeastSquares(A, bx, RIDGE_LAMBDA);
-      cy = solveLeastSquares(A, by, RIDGE_LAMBDA);
-      if (!cx || !cy) return false;
     }
 
-    this.coeffsX = cx;
-    this.coeffsY = cy;
-    this.firstPrediction = true;
-    this.bufX = [];
-    this.bufY = [];
+    // --- 모델 선택: 후보별 교차 검증 → 최소 오차 모델을 클린 데이터 전체로 재피팅 ---
+    const { spec, cvErrorPx, candidates } = selectModel(currentSamples, weights);
+    const fitted = fitModel(currentSamples, weights, spec);
+    if (!fitted) return false;
+    console.log(
+      `%c[Calibration] 모델 선택: ${modelLabel(spec)} — CV 오차 ${cvErrorPx.toFixed(0)}px (후보 ${candidates}개)`,
+      "color: #44aaff; font-weight: bold"
+    );
+
+    this.fitted = fitted;
+    this.weights = weights;
+    this.baseSamples = toNormalized(currentSamples);
+    this.featureRef = featureReference(currentSamples, weights);
+    this.driftCorrection = null;
+    this.filter.reset();
 
     // --- 진단 로깅 ---
-    this.lastDiagnostics = this.computeDiagnostics(currentSamples, A);
+    this.lastDiagnostics = this.computeDiagnostics(currentSamples, cvErrorPx);
     this.logDiagnostics();
 
     return true;
   }
 
+  /**
+   * 암묵적 재캘리브레이션 요청: 캘리브레이션 샘플 + 확정된 선택 샘플(extraWeight 가중).
+   * extra: 현재 창 px. 캘리브레이션 전이거나 샘플이 없으면 null
+   */
+  refitRequest(extra: CalibrationSample[], extraWeight: number): RefitRequest | null {
+    if (!this.fitted || this.baseSamples.length === 0 || extra.length === 0) return null;
+    this.syncScreenSize();
+    return {
+      base: this.baseSamples,
+      extra: toNormalized(extra),
+      extraWeight,
+      weights: this.weights,
+      current: this.fitted,
+      screen: { w: window.innerWidth, h: window.innerHeight },
+    };
+  }
+
+  /**
+   * 재피팅 결과 적용 — 선택 샘플 오차가 줄고 캘리브레이션 샘플 오차가 IMPLICIT_MAX_BASE_DEGRADATION배 넘게
+   * 늘지 않을 때만 교체. 요청 이후 모델이 바뀌었으면 (재캘리브레이션/복원) 버림.
+   * 드리프트 보정은 새 모델에 흡수되므로 교체 시 제거.
+   */
+  applyRefit(req: RefitRequest, result: RefitResult): boolean {
+    if (this.fitted !== req.current || !result.fitted) return false;
+
+    const [oldBase, newBase] = result.baseErrorPx;
+    const [oldExtra, newExtra] = result.extraErrorPx;
+    if (newExtra >= oldExtra || newBase > oldBase * IMPLICIT_MAX_BASE_DEGRADATION) {
+      console.log(
+        `[Implicit] 재피팅 거부 — 선택 오차 ${oldExtra.toFixed(0)}→${newExtra.toFixed(0)}px, 캘리브레이션 오차 ${oldBase.toFixed(0)}→${newBase.toFixed(0)}px`
+      );
+      return false;
+    }
+
+    this.fitted = result.fitted;
+    this.driftCorrection = null;
+    this.refreshDiagnostics();
+    console.log(
+      `%c[Implicit] 재피팅 적용 (선택 ${req.extra.length}개) — 선택 오차 ${oldExtra.toFixed(0)}→${newExtra.toFixed(0)}px, 캘리브레이션 오차 ${oldBase.toFixed(0)}→${newBase.toFixed(0)}px`,
+      "color: #44aaff; font-weight: bold"
+    );
+    return true;
+  }
+
+  /** samples: 현재 창 px */
   private computeDiagnostics(
     samples: CalibrationSample[],
-    normalizedA: number[][]
+    cvErrorPx?: number
   ): CalibrationDiagnostics {
-    const perPoint = samples.map((s, i) => {
-      const feat = normalizedA[i];
-      const predX = feat.reduce((sum, f, j) => sum + f * this.coeffsX![j], 0);
-      const predY = feat.reduce((sum, f, j) => sum + f * this.coeffsY![j], 0);
+    this.diagnosticsSize = { w: window.innerWidth, h: window.innerHeight };
+    const perPoint = samples.map((s) => {
+      const { x: predX, y: predY } = regress(this.fitted!, s, this.weights);
       const errorPx = Math.hypot(predX - s.screenX, predY - s.screenY);
       return {
         screenX: s.screenX,
@@ -419,6 +1007,9 @@ export class GazeMapper {
     const coverageX = screenRangeX > 0 ? (predRangeX[1] - predRangeX[0]) / screenRangeX : 0;
     const coverageY = screenRangeY > 0 ? (predRangeY[1] - predRangeY[0]) / screenRangeY : 0;
 
+    const poses = samples.every(hasPose) ? samples.map(poseOf) : null;
+    const distance = samples.every(hasDistance) ? distanceRange(samples.map((s) => s.dist)) : undefined;
+
     return {
       sampleCount: samples.length,
       meanErrorPx: Math.round(meanErrorPx),
@@ -429,6 +1020,12 @@ export class GazeMapper {
       predRangeY,
       coverageX: +coverageX.toFixed(3),
       coverageY: +coverageY.toFixed(3),
+      eyeWeights: this.weights,
+      model: this.fitted!.spec,
+      cvErrorPx: cvErrorPx !== undefined ? Math.round(cvErrorPx) : undefined,
+      headPose: poses ? meanPose(poses) : null,
+      headMotion: poses ? headMotion(poses) : null,
+      distance,
       perPoint,
     };
   }
@@ -444,6 +1041,20 @@ export class GazeMapper {
     console.log(`  Samples: ${d.sampleCount}`);
     console.log(`  R²: X=${d.r2X}, Y=${d.r2Y}`);
     console.log(`  Mean error: ${d.meanErrorPx}px, Max: ${d.maxErrorPx}px`);
+    console.log(`  Model: ${modelLabel(d.model)} (CV error: ${d.cvErrorPx}px)`);
+    if (d.distance) {
+      console.log(
+        `  Viewing distance: ${d.distance.minCm.toFixed(0)}~${d.distance.maxCm.toFixed(0)}cm (mean ${d.distance.meanCm.toFixed(0)}cm)`
+      );
+    }
+    if (d.headMotion) {
+      console.log(
+        `  Head motion: ${d.headMotion.rotationDeg.toFixed(1)}° rotation, ${d.headMotion.translationCm.toFixed(1)}cm translation (RMS)`
+      );
+    }
+    console.log(
+      `  Eye weights: L=${(d.eyeWeights.left * 100).toFixed(0)}%, R=${(d.eyeWeights.right * 100).toFixed(0)}%`
+    );
     console.log(
       `  Coverage: X=${(d.coverageX * 100).toFixed(0)}%, Y=${(d.coverageY * 100).toFixed(0)}%`
     );
@@ -464,33 +1075,33 @@ export class GazeMapper {
       }))
     );
 
-    // 특징 분포 로그
-    console.log(
-      "%c[Calibration] Feature normalization stats",
-      "color: #44aaff; font-weight: bold"
-    );
-    const names = ["(intercept)", "rx", "ry", "hx", "hy", "nx", "ny", "ey", "rx*ry", "rx²", "ry²"];
-    if (this.featMean && this.featStd) {
+    const m = this.fitted;
+    if (m && m.spec.featureSet !== "rbf") {
+      const names = TERM_NAMES[m.spec.featureSet];
+
+      // 특징 분포 로그
+      console.log(
+        "%c[Calibration] Feature normalization stats",
+        "color: #44aaff; font-weight: bold"
+      );
       console.table(
         names.map((name, j) => ({
           feature: name,
-          mean: j === 0 ? "-" : this.featMean![j].toFixed(6),
-          std: j === 0 ? "-" : this.featStd![j].toFixed(6),
+          mean: j === 0 ? "-" : m.featMean[j].toFixed(6),
+          std: j === 0 ? "-" : m.featStd[j].toFixed(6),
         }))
       );
-    }
 
-    // 회귀 계수 로그
-    console.log(
-      "%c[Calibration] Regression coefficients",
-      "color: #44aaff; font-weight: bold"
-    );
-    if (this.coeffsX && this.coeffsY) {
+      // 회귀 계수 로그
+      console.log(
+        "%c[Calibration] Regression coefficients",
+        "color: #44aaff; font-weight: bold"
+      );
       console.table(
         names.map((name, j) => ({
           feature: name,
-          coeffX: this.coeffsX![j].toFixed(2),
-          coeffY: this.coeffsY![j].toFixed(2),
+          coeffX: m.coeffsX[j].toFixed(2),
+          coeffY: m.coeffsY[j].toFixed(2),
         }))
       );
     }
@@ -513,7 +1124,7 @@ export class GazeMapper {
     }
   }
 
-  /** 캘리브레이션 프레임 정제: settle 기간 제거 + 이상치 제거 */
+  /** 캘리브레이션 프레임 정제: settle 기간 제거 + 이상치 제거 (특징별) */
   static cleanFrames(
     frames: GazeFeatures[],
     settleFrames: number
@@ -521,117 +1132,159 @@ export class GazeMapper {
     const settled = frames.slice(settleFrames);
     const src = settled.length > 0 ? settled : frames;
 
-    const rxVals = removeOutliers(
-      src.map((f) => f.rx),
-      CALIBRATION_OUTLIER_STD
-    );
-    const ryVals = removeOutliers(
-      src.map((f) => f.ry),
-      CALIBRATION_OUTLIER_STD
-    );
-    const hxVals = removeOutliers(
-      src.map((f) => f.hx),
-      CALIBRATION_OUTLIER_STD
-    );
-    const hyVals = removeOutliers(
-      src.map((f) => f.hy),
-      CALIBRATION_OUTLIER_STD
-    );
-    const nxVals = removeOutliers(
-      src.map((f) => f.nx),
-      CALIBRATION_OUTLIER_STD
-    );
-    const nyVals = removeOutliers(
-      src.map((f) => f.ny),
-      CALIBRATION_OUTLIER_STD
-    );
-    const eyVals = removeOutliers(
-      src.map((f) => f.ey),
-      CALIBRATION_OUTLIER_STD
-    );
+    const cleaned = {} as GazeFeatures;
+    for (const key of Object.keys(src[0]) as (keyof GazeFeatures)[]) {
+      const vals = removeOutliers(
+        src.map((f) => f[key]),
+        CALIBRATION_OUTLIER_STD
+      );
+      cleaned[key] = vals.reduce((a, b) => a + b, 0) / vals.length;
+    }
+    return cleaned;
+  }
 
+  /** 포인트 수집 중 눈별 홍채 떨림 (rx, ry 표준편차의 합성) */
+  static eyeJitter(
+    frames: GazeFeatures[],
+    settleFrames: number
+  ): { leftJitter: number; rightJitter: number } {
+    const settled = frames.slice(settleFrames);
+    const src = settled.length > 0 ? settled : frames;
+    const variance = (vals: number[]) => {
+      const mean = vals.reduce((s, v) => s + v, 0) / vals.length;
+      return vals.reduce((s, v) => s + (v - mean) ** 2, 0) / vals.length;
+    };
     return {
-      rx: rxVals.reduce((a, b) => a + b, 0) / rxVals.length,
-      ry: ryVals.reduce((a, b) => a + b, 0) / ryVals.length,
-      hx: hxVals.reduce((a, b) => a + b, 0) / hxVals.length,
-      hy: hyVals.reduce((a, b) => a + b, 0) / hyVals.length,
-      nx: nxVals.reduce((a, b) => a + b, 0) / nxVals.length,
-      ny: nyVals.reduce((a, b) => a + b, 0) / nyVals.length,
-      ey: eyVals.reduce((a, b) => a + b, 0) / eyVals.length,
+      leftJitter: Math.sqrt(variance(src.map((f) => f.lrx)) + variance(src.map((f) => f.lry))),
+      rightJitter: Math.sqrt(variance(src.map((f) => f.rrx)) + variance(src.map((f) => f.rry))),
     };
   }
 
-  predict(features: GazeFeatures): { x: number; y: number } {
-    if (!this.coeffsX || !this.coeffsY) return { x: 0, y: 0 };
+  /** 현재 사용 중인 보정까지 적용한, 스무딩 전 예측 (암묵적 샘플 검증용) */
+  rawPrediction(features: GazeFeatures): { x: number; y: number } {
+    const p = this.basePrediction(features);
+    const drift = this.driftCorrection;
+    if (!drift) return p;
+    const u = p.x / window.innerWidth;
+    const v = p.y / window.innerHeight;
+    return {
+      x: p.x + drift.x[0] + drift.x[1] * u + drift.x[2] * v,
+      y: p.y + drift.y[0] + drift.y[1] * u + drift.y[2] * v,
+    };
+  }
 
-    const rawFeat = polyFeatures(features);
-    const feat = this.applyNormalization(rawFeat);
-    const regX = feat.reduce((s, f, i) => s + f * this.coeffsX![i], 0);
-    const regY = feat.reduce((s, f, i) => s + f * this.coeffsY![i], 0);
+  /** 회귀 + 민감도만 적용한 예측 (드리프트 보정/스무딩 전) */
+  private basePrediction(features: GazeFeatures): { x: number; y: number } {
+    const { x: regX, y: regY } = regress(this.fitted!, features, this.weights);
 
     // Sensitivity: 화면 중심 기준으로 스케일링 (과민 억제)
     const cx = window.innerWidth / 2;
     const cy = window.innerHeight / 2;
-    const rawX = cx + (regX - cx) * GAZE_SENSITIVITY;
-    const rawY = cy + (regY - cy) * GAZE_SENSITIVITY;
-
-    // Stage 1: Exponential moving average
-    if (this.firstPrediction) {
-      this.smoothX = rawX;
-      this.smoothY = rawY;
-      this.outputX = rawX;
-      this.outputY = rawY;
-      this.firstPrediction = false;
-    } else {
-      this.smoothX =
-        SMOOTHING_ALPHA * rawX + (1 - SMOOTHING_ALPHA) * this.smoothX;
-      this.smoothY =
-        SMOOTHING_ALPHA * rawY + (1 - SMOOTHING_ALPHA) * this.smoothY;
-    }
+    return {
+      x: cx + (regX - cx) * GAZE_SENSITIVITY,
+      y: cy + (regY - cy) * GAZE_SENSITIVITY,
+    };
+  }
 
-    // Stage 2: Moving average buffer
-    this.bufX.push(this.smoothX);
-    this.bufY.push(this.smoothY);
-    if (this.bufX.length > MOVING_AVG_SIZE) this.bufX.shift();
-    if (this.bufY.length > MOVING_AVG_SIZE) this.bufY.shift();
-
-    const avgX = this.bufX.reduce((a, b) => a + b, 0) / this.bufX.length;
-    const avgY = this.bufY.reduce((a, b) => a + b, 0) / this.bufY.length;
-
-    // Stage 3: Minimum movement threshold
-    const dx = avgX - this.outputX;
-    const dy = avgY - this.outputY;
-    if (Math.hypot(dx, dy) > MIN_MOVE_PX) {
-      this.outputX = avgX;
-      this.outputY = avgY;
+  /**
+   * 드리프트 보정 (1~5 포인트). 기존 회귀는 그대로 두고 그 예측과 목표 지점의 차이를 맞춤.
+   * DRIFT_AFFINE_MIN_POINTS 미만이면 평행이동만, 이상이면 affine (단위 변환 쪽으로 릿지).
+   */
+  fitDriftCorrection(samples: CalibrationSample[]): boolean {
+    if (!this.isCalibrated || samples.length === 0) return false;
+
+    const w = window.innerWidth;
+    const h = window.innerHeight;
+    const preds = samples.map((s) => this.basePrediction(s));
+    const dx = samples.map((s, i) => s.screenX - preds[i].x);
+    const dy = samples.map((s, i) => s.screenY - preds[i].y);
+    const mean = (vals: number[]) => vals.reduce((a, b) => a + b, 0) / vals.length;
+
+    let cx: number[] | null = [mean(dx), 0, 0];
+    let cy: number[] | null = [mean(dy), 0, 0];
+    if (samples.length >= DRIFT_AFFINE_MIN_POINTS) {
+      const A = preds.map((p) => [1, p.x / w, p.y / h]);
+      const ax = solveLeastSquares(A, dx, DRIFT_RIDGE_LAMBDA);
+      const ay = solveLeastSquares(A, dy, DRIFT_RIDGE_LAMBDA);
+      if (ax && ay) {
+        cx = ax;
+        cy = ay;
+      }
     }
 
-    // Stage 4: Clamp to screen
+    const meanShiftPx = mean(dx.map((v, i) => Math.hypot(v, dy[i])));
+    this.driftCorrection = { x: cx, y: cy, pointCount: samples.length, meanShiftPx };
+    this.resetSmoothing();
+
+    console.log(
+      `%c[Drift] ${samples.length}포인트 보정 — 평균 이동 ${meanShiftPx.toFixed(0)}px`,
+      "color: #44aaff; font-weight: bold"
+    );
+    return true;
+  }
+
+  /** 프로필별 스무딩 필터 교체 (캘리브레이션 유지) */
+  setFilter(settings: FilterSettings): void {
+    this.filter = createGazeFilter(settings);
+  }
+
+  /** tMs: 프레임 캡처 시각 (속도 적응 필터의 시간 간격 계산) */
+  predict(features: GazeFeatures, tMs = performance.now()): GazePrediction {
+    if (!this.fitted) return { x: 0, y: 0, errorPx: Infinity };
+    this.syncScreenSize();
+
+    const raw = this.rawPrediction(features);
+    const { x, y } = this.filter.apply(raw.x, raw.y, tMs);
+
+    this.recentRaw.push(raw);
+    if (this.recentRaw.length > UNCERTAINTY_JITTER_FRAMES) this.recentRaw.shift();
+
+    // Clamp to screen — 잘라낸 거리도 오차로 취급 (화면 밖 외삽)
+    const cx = Math.max(0, Math.min(window.innerWidth, x));
+    const cy = Math.max(0, Math.min(window.innerHeight, y));
     return {
-      x: Math.max(0, Math.min(window.innerWidth, this.outputX)),
-      y: Math.max(0, Math.min(window.innerHeight, this.outputY)),
+      x: cx,
+      y: cy,
+      errorPx: Math.hypot(this.uncertainty(features, cx, cy), x - cx, y - cy),
     };
   }
 
-  /** freeze 해제 시 호출 — 스무딩 버퍼만 초기화 (캘리브레이션 유지) */
+  /**
+   * 오차 반경: 주변 캘리브레이션 잔차, 캘리브레이션 범위 밖 특징(외삽), 최근 떨림의 합성.
+   */
+  private uncertainty(features: GazeFeatures, x: number, y: number): number {
+    const d = this.lastDiagnostics;
+    const residual = d ? regionalResidual(x, y, d) : 0;
+
+    const ref = this.featureRef;
+    const extrapolation = ref
+      ? UNCERTAINTY_PX_PER_STD *
+        Math.max(0, nearestSampleDistance(features, this.weights, ref) - UNCERTAINTY_FEATURE_FREE_STD)
+      : 0;
+
+    // 떨림: 중앙값 기준 흩어짐 (도약 직후 창에 두 위치가 섞여도 크게 튀지 않도록)
+    const median = (vals: number[]) => [...vals].sort((a, b) => a - b)[Math.floor(vals.length / 2)];
+    const mx = median(this.recentRaw.map((p) => p.x));
+    const my = median(this.recentRaw.map((p) => p.y));
+    const jitter = 1.4826 * median(this.recentRaw.map((p) => Math.hypot(p.x - mx, p.y - my)));
+
+    return Math.max(UNCERTAINTY_MIN_PX, Math.hypot(residual, extrapolation, jitter));
+  }
+
+  /** freeze 해제 시 호출 — 필터 상태만 초기화 (캘리브레이션 유지) */
   resetSmoothing(): void {
-    this.firstPrediction = true;
-    this.bufX = [];
-    this.bufY = [];
+    this.filter.reset();
+    this.recentRaw = [];
   }
 
   reset(): void {
-    this.coeffsX = null;
-    this.coeffsY = null;
-    this.featMean = null;
-    this.featStd = null;
+    this.fitted = null;
     this.lastDiagnostics = null;
-    this.firstPrediction = true;
-    this.smoothX = 0;
-    this.smoothY = 0;
-    this.outputX = 0;
-    this.outputY = 0;
-    this.bufX = [];
-    this.bufY = [];
+    this.driftCorrection = null;
+    this.baseSamples = [];
+    this.diagnosticsSize = { w: 0, h: 0 };
+    this.featureRef = null;
+    this.weights = GazeMapper.eyeWeightsFor(this.eyeChoice);
+    this.filter.reset();
   }
 }
@@ -0,0 +1,152 @@
+import {
+  refitCoefficients,
+  type GazeMapper,
+  type CalibrationSample,
+  type GazeFeatures,
+  type RefitRequest,
+  type RefitResult,
+} from "./GazeMapper";
+import {
+  IMPLICIT_CONFIRM_MS,
+  IMPLICIT_MAX_ERROR_PX,
+  IMPLICIT_SAMPLE_WEIGHT,
+  IMPLICIT_MAX_SAMPLES,
+  IMPLICIT_REFIT_EVERY,
+} from "../config";
+
+// --- 메인 스레드 ↔ 재피팅 워커 메시지 ---
+
+export interface RefitWorkerRequest {
+  id: number;
+  request: RefitRequest;
+}
+
+export interface RefitWorkerResponse {
+  id: number;
+  result: RefitResult;
+}
+
+let refitWorker: Worker | null = null;
+let nextRefitId = 0;
+const refitCallbacks = new Map<number, (result: RefitResult | null) => void>();
+
+/** 재피팅 워커 (모든 파이프라인이 공유, 처음 쓸 때 생성) — Worker가 없는 환경(테스트)이면 null */
+function getRefitWorker(): Worker | null {
+  if (refitWorker || typeof Worker === "undefined") return refitWorker;
+  const worker = new Worker(new URL("./refit.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (e: MessageEvent<RefitWorkerResponse>) => {
+    const callback = refitCallbacks.get(e.data.id);
+    refitCallbacks.delete(e.data.id);
+    callback?.(e.data.result);
+  };
+  worker.onerror = (e) => {
+    console.warn(`[Implicit] 재피팅 워커 오류 — ${e.message}`);
+    for (const callback of refitCallbacks.values()) callback(null);
+    refitCallbacks.clear();
+  };
+  refitWorker = worker;
+  return worker;
+}
+
+/**
+ * 확정된 선택으로부터의 암묵적 재캘리브레이션.
+ *
+ * 선택 직후에는 보류(pending) → IMPLICIT_CONFIRM_MS 안에 "뒤로"가 없으면 확정.
+ * 확정 샘플이 IMPLICIT_REFIT_EVERY개 쌓일 때마다 재피팅 워커에서 선택된 모델 구조의 계수만 다시 피팅
+ * (모델 선택/교차 검증은 다시 하지 않음) → 결과가 돌아오면 메인 스레드에서 적용 여부 판정.
+ */
+export class ImplicitCalibrator {
+  private pending: { sample: CalibrationSample; atMs: number } | null = null;
+  private confirmed: CalibrationSample[] = [];
+  private sinceRefit = 0;
+  private refitId: number | null = null; // 워커에서 실행 중인 재피팅
+
+  /** 재피팅이 적용될 때 (세션 녹화용) — samples: 사용한 선택 샘플 (현재 창 px) */
+  onRefit: ((samples: CalibrationSample[]) => void) | null = null;
+
+  constructor(private readonly gaze: GazeMapper) {}
+
+  get sampleCount(): number {
+    return this.confirmed.length;
+  }
+
+  /** 선택 발생 — 눈 감기 직전 특징과 버튼 중심. 학습 후보로 받아들였으면 true */
+  propose(features: GazeFeatures, target: { x: number; y: number }, nowMs: number): boolean {
+    if (!this.gaze.isCalibrated) return false;
+
+    // 예측이 버튼에서 너무 멀면 히스테리시스/우연에 의한 선택일 수 있음
+    const predicted = this.gaze.rawPrediction(features);
+    const errorPx = Math.hypot(predicted.x - target.x, predicted.y - target.y);
+    if (errorPx > IMPLICIT_MAX_ERROR_PX) {
+      console.log(`[Implicit] 선택 무시 — 예측이 버튼 중심에서 ${errorPx.toFixed(0)}px`);
+      return false;
+    }
+
+    if (this.pending) this.commit();
+    this.pending = { sample: { ...features, screenX: target.x, screenY: target.y }, atMs: nowMs };
+    return true;
+  }
+
+  /** 직전 선택이 잘못되었음 (바로 "뒤로") — 보류 중인 샘플 폐기 */
+  reject(): void {
+    if (!this.pending) return;
+    console.log("[Implicit] 직후 '뒤로' — 직전 선택을 학습하지 않음");
+    this.pending = null;
+  }
+
+  /** 프레임마다 호출 — 확인 시간이 지난 보류 샘플 확정 */
+  tick(nowMs: number): void {
+    if (this.pending && nowMs - this.pending.atMs >= IMPLICIT_CONFIRM_MS) this.commit();
+  }
+
+  /** 녹화된 재피팅 재현 — 재생 결과가 워커 응답 시점에 좌우되지 않도록 바로 적용 */
+  refitNow(samples: CalibrationSample[]): void {
+    const request = this.gaze.refitRequest(samples, IMPLICIT_SAMPLE_WEIGHT);
+    if (request) this.apply(request, refitCoefficients(request), samples);
+  }
+
+  /** 캘리브레이션이 바뀌면 이전 모델 기준 샘플은 폐기 */
+  reset(): void {
+    this.pending = null;
+    this.confirmed = [];
+    this.sinceRefit = 0;
+    if (this.refitId !== null) refitCallbacks.delete(this.refitId); // 이전 모델 기준 결과는 버림
+    this.refitId = null;
+  }
+
+  private commit(): void {
+    if (!this.pending) return;
+    this.confirmed.push(this.pending.sample);
+    if (this.confirmed.length > IMPLICIT_MAX_SAMPLES) this.confirmed.shift();
+    this.pending = null;
+
+    if (++this.sinceRefit >= IMPLICIT_REFIT_EVERY && this.refitId === null) {
+      this.sinceRefit = 0;
+      this.refit();
+    }
+  }
+
+  private refit(): void {
+    const samples = this.confirmed.slice();
+    const request = this.gaze.refitRequest(samples, IMPLICIT_SAMPLE_WEIGHT);
+    if (!request) return;
+
+    const worker = getRefitWorker();
+    if (!worker) {
+      this.apply(request, refitCoefficients(request), samples);
+      return;
+    }
+    const id = nextRefitId++;
+    this.refitId = id;
+    refitCallbacks.set(id, (result) => {
+      this.refitId = null;
+      if (result) this.apply(request, result, samples);
+    });
+    const msg: RefitWorkerRequest = { id, request };
+    worker.postMessage(msg);
+  }
+
+  private apply(request: RefitRequest, result: RefitResult, samples: CalibrationSample[]): void {
+    if (this.gaze.applyRefit(request, result)) this.onRefit?.(samples);
+  }
+}
@@ -0,0 +1,126 @@
+import type { GazeFeatures } from "./GazeMapper";
+import {
+  POSITION_WINDOW_FRAMES,
+  POSITION_SCALE_FLOOR,
+  POSITION_CHANGED_SCORE,
+  POSITION_FAR_SCORE,
+  POSITION_FAR_HOLD_MS,
+} from "../config";
+
+/** ok: 캘리브레이션 범위 안, changed: 벗어남 (표시만), far: 크게 벗어난 채 유지 (보정 제안) */
+export type PositionLevel = "ok" | "changed" | "far";
+
+export interface PositionStatus {
+  score: number; // 캘리브레이션 범위 밖 거리 (특징별 척도 단위, 가장 큰 값)
+  feature: PositionFeature; // score를 만든 특징
+  level: PositionLevel;
+}
+
+export type PositionFeature = "hx" | "hy" | "nx" | "ny";
+
+const FEATURES: PositionFeature[] = ["hx", "hy", "nx", "ny"];
+
+export const POSITION_FEATURE_LABELS: Record<PositionFeature, string> = {
+  hx: "고개 좌우",
+  hy: "고개 위아래",
+  nx: "얼굴 좌우 위치",
+  ny: "얼굴 위아래 위치",
+};
+
+/** 캘리브레이션 샘플의 머리 특징 범위 */
+interface PositionRange {
+  min: number;
+  max: number;
+  scale: number; // 표준편차 (POSITION_SCALE_FLOOR 이상)
+}
+
+function positionReference(samples: GazeFeatures[]): Record<PositionFeature, PositionRange> {
+  const ref = {} as Record<PositionFeature, PositionRange>;
+  for (const k of FEATURES) {
+    const vals = samples.map((s) => s[k]);
+    const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
+    const std = Math.sqrt(vals.reduce((a, b) => a + (b - mean) ** 2, 0) / vals.length);
+    ref[k] = {
+      min: Math.min(...vals),
+      max: Math.max(...vals),
+      scale: Math.max(std, POSITION_SCALE_FLOOR),
+    };
+  }
+  return ref;
+}
+
+function median(vals: number[]): number {
+  const sorted = [...vals].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * 머리 위치 변화 감지 — 사용 중 머리 특징(중앙값)이 캘리브레이션 샘플 범위를 얼마나 벗어났는지.
+ * 간호 처치 등으로 환자 자세가 바뀌면 모델이 외삽하게 되므로 보호자/환자에게 알리고,
+ * 크게 벗어난 상태가 POSITION_FAR_HOLD_MS 이상 이어지면 보정을 제안.
+ */
+export class PositionMonitor {
+  private reference: Record<PositionFeature, PositionRange> | null = null;
+  private recent: GazeFeatures[] = [];
+  private farSince = 0; // far 점수가 시작된 시각 (0 = 아님)
+  private current: PositionStatus | null = null;
+
+  /** null = 기준 없음 (미캘리브레이션) 또는 아직 판정할 프레임이 부족 */
+  get status(): PositionStatus | null {
+    return this.current;
+  }
+
+  /** 캘리브레이션(또는 보정) 샘플의 머리 위치를 새 기준으로 */
+  setReference(samples: GazeFeatures[]): void {
+    this.reference = samples.length > 0 ? positionReference(samples) : null;
+    this.recent = [];
+    this.farSince = 0;
+    this.current = null;
+  }
+
+  update(features: GazeFeatures, tMs: number): PositionStatus | null {
+    const ref = this.reference;
+    if (!ref) return null;
+
+    this.recent.push(features);
+    if (this.recent.length > POSITION_WINDOW_FRAMES) this.recent.shift();
+    if (this.recent.length < POSITION_WINDOW_FRAMES) return this.current;
+
+    let score = 0;
+    let feature: PositionFeature = "hx";
+    for (const k of FEATURES) {
+      const v = median(this.recent.map((f) => f[k]));
+      const outside = Math.max(0, ref[k].min - v, v - ref[k].max) / ref[k].scale;
+      if (outside > score) {
+        score = outside;
+        feature = k;
+      }
+    }
+
+    if (score < POSITION_FAR_SCORE) this.farSince = 0;
+    else if (this.farSince === 0) this.farSince = tMs;
+
+    let level: PositionLevel = "ok";
+    if (this.farSince > 0 && tMs - this.farSince >= POSITION_FAR_HOLD_MS) level = "far";
+    else if (score >= POSITION_CHANGED_SCORE) level = "changed";
+
+    if (level !== (this.current?.level ?? "ok")) {
+      console.log(`[Position] ${level} — ${POSITION_FEATURE_LABELS[feature]} ${score.toFixed(1)}`);
+    }
+    this.current = { score, feature, level };
+    return this.current;
+  }
+
+  /** 얼굴 미검출/소스 재개 — 이전 창은 버림 (기준은 유지) */
+  invalidate(): void {
+    this.recent = [];
+    this.farSince = 0;
+  }
+
+  reset(): void {
+    this.reference = null;
+    this.invalidate();
+    this.current = null;
+  }
+}
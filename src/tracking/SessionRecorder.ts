@@ -0,0 +1,201 @@
+import type { Landmarks } from "./EyeTracker";
+import type { CalibrationSample, EyeChoice } from "./GazeMapper";
+import type { EarBaseline } from "./EarBaseline";
+import type { FilterSettings } from "./gazeFilters";
+import type { HeadPose } from "./headPose";
+import type { SelectionMode } from "./selectionStrategies";
+import type { SourceFrame } from "./sources/GazeSource";
+import { RECORDING_FORMAT_VERSION, RECORDING_MAX_SEC } from "../config";
+
+export interface RecordedFrame {
+  t: number; // 녹화 시작 기준 ms
+  zoom: number;
+  /** Float32 [x, y, z] × 478 을 base64로 인코딩 (MediaPipe 출력과 비트 단위로 동일) */
+  landmarks: string | null;
+  headPose: HeadPose | null;
+}
+
+/** 출력에 영향을 주는 프로필 설정 — 재생/필터 비교는 현재 프로필 대신 이 값을 씀 */
+export interface RecordedSettings {
+  eye: EyeChoice;
+  earBaseline: EarBaseline | null;
+  filter: FilterSettings;
+  selectionMode: SelectionMode;
+}
+
+/**
+ * 녹화 이벤트 (t: 녹화 시작 기준 ms).
+ * - calibration: 캘리브레이션 샘플
+ * - settings: 프로필 설정 변경 (녹화 시작 시 한 번은 항상 기록)
+ * - drift: 드리프트 보정 샘플
+ * - refit: 적용된 암묵적 재피팅의 선택 샘플
+ */
+export type RecordedEvent =
+  | { t: number; type: "calibration"; samples: CalibrationSample[] }
+  | { t: number; type: "settings"; settings: RecordedSettings }
+  | { t: number; type: "drift"; samples: CalibrationSample[] }
+  | { t: number; type: "refit"; samples: CalibrationSample[] };
+
+export interface SessionRecording {
+  version: number;
+  startedAt: string; // ISO 8601
+  screen: { width: number; height: number; devicePixelRatio: number };
+  frames: RecordedFrame[];
+  events: RecordedEvent[]; // 시간순 (같은 시각이면 녹화 순서)
+}
+
+/** 녹화 이벤트 → 파이프라인 입력 프레임 (baseMs: 재생 시작 시각) */
+export function eventFrame(event: RecordedEvent, baseMs: number): SourceFrame {
+  const timestampMs = baseMs + event.t;
+  switch (event.type) {
+    case "settings":
+      return { type: "settings", timestampMs, settings: event.settings };
+    default:
+      return { type: event.type, timestampMs, samples: event.samples };
+  }
+}
+
+// --- Landmark 인코딩 ---
+
+export function encodeLandmarks(landmarks: Landmarks): string {
+  const buf = new Float32Array(landmarks.length * 3);
+  landmarks.forEach((p, i) => {
+    buf[i * 3] = p.x;
+    buf[i * 3 + 1] = p.y;
+    buf[i * 3 + 2] = p.z;
+  });
+  const bytes = new Uint8Array(buf.buffer);
+  let binary = "";
+  // String.fromCharCode 인자 개수 제한 회피
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeLandmarks(encoded: string): Landmarks {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  const buf = new Float32Array(bytes.buffer);
+  const landmarks: Landmarks = [];
+  for (let i = 0; i < buf.length; i += 3) {
+    landmarks.push({ x: buf[i], y: buf[i + 1], z: buf[i + 2], visibility: 0 });
+  }
+  return landmarks;
+}
+
+// --- Recorder ---
+
+/**
+ * 세션 녹화기.
+ * 매 프레임의 랜드마크 + 타임스탬프 + 줌, 화면 크기, 그리고 출력을 바꾸는 이벤트
+ * (캘리브레이션, 프로필 설정, 드리프트 보정, 암묵적 재피팅)를 기록.
+ * 재생(ReplaySource) 시 BlinkDetector/GazeMapper/CommBoard가 원래 세션과 동일하게 동작.
+ */
+export class SessionRecorder {
+  private recording: SessionRecording;
+  private startMs: number;
+
+  constructor(
+    startMs: number,
+    settings: RecordedSettings,
+    currentCalibration: CalibrationSample[] | null
+  ) {
+    this.startMs = startMs;
+    this.recording = {
+      version: RECORDING_FORMAT_VERSION,
+      startedAt: new Date().toISOString(),
+      screen: {
+        width: window.innerWidth,
+        height: window.innerHeight,
+        devicePixelRatio: window.devicePixelRatio,
+      },
+      frames: [],
+      events: [{ t: 0, type: "settings", settings }],
+    };
+    // 녹화 시작 전에 캘리브레이션했다면 그 샘플로 시작
+    if (currentCalibration) this.addCalibration(startMs, currentCalibration);
+  }
+
+  /** 최대 녹화 시간 도달 여부 (이후 프레임은 버림) */
+  get isFull(): boolean {
+    const last = this.recording.frames[this.recording.frames.length - 1];
+    return !!last && last.t > RECORDING_MAX_SEC * 1000;
+  }
+
+  addFrame(
+    timestampMs: number,
+    zoom: number,
+    landmarks: Landmarks | null,
+    headPose: HeadPose | null
+  ): void {
+    if (this.isFull) return;
+    this.recording.frames.push({
+      t: timestampMs - this.startMs,
+      zoom,
+      landmarks: landmarks ? encodeLandmarks(landmarks) : null,
+      headPose,
+    });
+  }
+
+  addCalibration(timestampMs: number, samples: CalibrationSample[]): void {
+    this.recording.events.push({ t: this.at(timestampMs), type: "calibration", samples: copy(samples) });
+  }
+
+  addSettings(timestampMs: number, settings: RecordedSettings): void {
+    this.recording.events.push({ t: this.at(timestampMs), type: "settings", settings });
+  }
+
+  addDrift(timestampMs: number, samples: CalibrationSample[]): void {
+    this.recording.events.push({ t: this.at(timestampMs), type: "drift", samples: copy(samples) });
+  }
+
+  addRefit(timestampMs: number, samples: CalibrationSample[]): void {
+    this.recording.events.push({ t: this.at(timestampMs), type: "refit", samples: copy(samples) });
+  }
+
+  finish(): SessionRecording {
+    return this.recording;
+  }
+
+  private at(timestampMs: number): number {
+    return Math.max(0, timestampMs - this.startMs);
+  }
+}
+
+function copy(samples: CalibrationSample[]): CalibrationSample[] {
+  return samples.map((s) => ({ ...s }));
+}
+
+// --- 파일 입출력 ---
+
+export function downloadRecording(rec: SessionRecording): void {
+  const stamp = rec.startedAt.replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  const blob = new Blob([JSON.stringify(rec)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `mindmaker-session-${stamp}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function parseRecording(text: string): SessionRecording {
+  let rec: SessionRecording;
+  try {
+    rec = JSON.parse(text) as SessionRecording;
+  } catch {
+    throw new Error("녹화 파일 형식이 올바르지 않습니다");
+  }
+  if (rec.version !== RECORDING_FORMAT_VERSION) {
+    throw new Error(`지원하지 않는 녹화 파일 버전입니다: ${rec.version}`);
+  }
+  if (!Array.isArray(rec.frames) || rec.frames.length === 0) {
+    throw new Error("녹화 파일에 프레임이 없습니다");
+  }
+  if (!Array.isArray(rec.events) || rec.events[0]?.type !== "settings") {
+    throw new Error("녹화 파일에 처리 설정이 없습니다");
+  }
+  return rec;
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { EYE_CLOSE_SELECT_SEC, HIT_TEST_PADDING_PX, HYSTERESIS_EXTRA_PX } from "../config";
+import { TrackingPipeline } from "./TrackingPipeline";
+import { coveredButtons, hitTest, type ButtonRect } from "./hitTest";
+import { BoardSelector } from "./BoardSelector";
+import { DEFAULT_FILTER_SETTINGS } from "./gazeFilters";
+import { ScriptedGazeSource, type ScriptStep } from "./sources/ScriptedGazeSource";
+import type { TrackerState } from "./useTracker";
+
+type Frame = Partial<TrackerState> & { tMs: number };
+
+/** 스크립트를 끝까지 재생하고 파이프라인 출력을 프레임별로 모음 */
+async function run(steps: ScriptStep[]): Promise<Frame[]> {
+  const pipeline = new TrackingPipeline();
+  const source = new ScriptedGazeSource(steps, { manual: true });
+  const frames: Frame[] = [];
+  let ended = false;
+  await source.start({
+    frame: (frame) => {
+      const state = pipeline.process(frame);
+      if (state) frames.push({ ...state, tMs: frame.timestampMs });
+    },
+    end: () => {
+      ended = true;
+    },
+  });
+  source.advanceTo(source.durationMs + 100); // 마지막 스텝 이후 첫 프레임에서 end
+  expect(ended).toBe(true);
+  return frames;
+}
+
+// 2x2 보드 — 각 버튼 400x300, 사이 간격 200px
+const BUTTONS: ButtonRect[] = [
+  { left: 0, top: 0, right: 400, bottom: 300 },
+  { left: 600, top: 0, right: 1000, bottom: 300 },
+  { left: 0, top: 500, right: 400, bottom: 800 },
+  { left: 600, top: 500, right: 1000, bottom: 800 },
+];
+
+/** 파이프라인 출력을 보드와 같은 판정기(BoardSelector)에 프레임마다 넣어 선택 결과를 모음 */
+function selections(frames: Frame[]): { index: number; tMs: number }[] {
+  const selector = new BoardSelector("eye-close");
+  const selected: { index: number; tMs: number }[] = [];
+  for (const f of frames) {
+    const result = selector.update(f as TrackerState, BUTTONS, f.tMs);
+    if (result.selected !== null) selected.push({ index: result.selected, tMs: f.tMs });
+  }
+  return selected;
+}
+
+describe("ScriptedGazeSource → TrackingPipeline", () => {
+  it("눈을 EYE_CLOSE_SELECT_SEC 이상 감으면 한 번만 선택을 발동", async () => {
+    const frames = await run([
+      { atMs: 0, x: 800, y: 650 },
+      { atMs: 1000, eyesClosed: true },
+      { atMs: 3000, eyesClosed: false },
+      { atMs: 3500 },
+    ]);
+
+    const fired = frames.filter((f) => f.eyeCloseSelect);
+    expect(fired).toHaveLength(1);
+    const closedFor = fired[0].tMs - frames.find((f) => f.eyesClosed)!.tMs;
+    expect(closedFor).toBeGreaterThanOrEqual(EYE_CLOSE_SELECT_SEC * 1000);
+    expect(closedFor).toBeLessThan(EYE_CLOSE_SELECT_SEC * 1000 + 50);
+  });
+
+  it("짧은 눈 감기는 선택하지 않음", async () => {
+    const frames = await run([
+      { atMs: 0, x: 200, y: 150 },
+      { atMs: 500, eyesClosed: true },
+      { atMs: 500 + EYE_CLOSE_SELECT_SEC * 500, eyesClosed: false },
+      { atMs: 2500 },
+    ]);
+    expect(frames.some((f) => f.eyeCloseSelect)).toBe(false);
+  });
+
+  it("눈 감은 동안 시선을 고정해 감기 전에 보던 버튼을 선택", async () => {
+    const frames = await run([
+      { atMs: 0, x: 800, y: 650 },
+      { atMs: 1000, eyesClosed: true },
+      // 감은 동안 보고되는 좌표는 무시되어야 함
+      { atMs: 1200, x: 200, y: 150 },
+      { atMs: 3000 },
+    ]);
+
+    const closed = frames.filter((f) => f.eyesClosed);
+    expect(closed.length).toBeGreaterThan(0);
+    for (const f of closed) {
+      expect(f.gazeX).toBe(800);
+      expect(f.gazeY).toBe(650);
+    }
+    expect(selections(frames)).toEqual([{ index: 3, tMs: expect.any(Number) }]);
+  });
+
+  it("버튼 사이를 보면 호버/선택 없음", async () => {
+    const frames = await run([
+      { atMs: 0, x: 500, y: 400 },
+      { atMs: 1000, eyesClosed: true },
+      { atMs: 3000 },
+    ]);
+    expect(frames.some((f) => f.eyeCloseSelect)).toBe(true);
+    expect(selections(frames)).toEqual([]);
+  });
+
+  it("시선을 옮기면 고정이 새 버튼으로 넘어간 뒤 그 버튼을 선택", async () => {
+    const frames = await run([
+      { atMs: 0, x: 200, y: 150 },
+      { atMs: 1000, x: 800, y: 150 },
+      { atMs: 2000, eyesClosed: true },
+      { atMs: 4000 },
+    ]);
+    expect(selections(frames).map((s) => s.index)).toEqual([1]);
+  });
+});
+
+describe("hitTest", () => {
+  it("패딩 안쪽은 버튼으로, 버튼 사이 중앙은 없음으로", () => {
+    expect(hitTest(BUTTONS, 200, 150, null)).toBe(0);
+    expect(hitTest(BUTTONS, 400 + HIT_TEST_PADDING_PX, 150, null)).toBe(0);
+    expect(hitTest(BUTTONS, 500, 150, null)).toBeNull();
+  });
+
+  it("호버 중인 버튼은 exit zone까지 유지 (히스테리시스)", () => {
+    const x = 400 + HIT_TEST_PADDING_PX + HYSTERESIS_EXTRA_PX / 2;
+    expect(hitTest(BUTTONS, x, 150, null)).toBeNull();
+    expect(hitTest(BUTTONS, x, 150, 0)).toBe(0);
+    expect(hitTest(BUTTONS, 400 + HIT_TEST_PADDING_PX + HYSTERESIS_EXTRA_PX + 1, 150, 0)).toBeNull();
+  });
+
+  it("없는 버튼(null)은 건너뜀", () => {
+    expect(hitTest([null, ...BUTTONS.slice(1)], 200, 150, 0)).toBeNull();
+    expect(hitTest([null, ...BUTTONS.slice(1)], 800, 150, null)).toBe(1);
+  });
+
+  it("오차 반경이 덮는 버튼 중심 수", () => {
+    expect(coveredButtons(BUTTONS, 220, 150, 10)).toBe(0);
+    expect(coveredButtons(BUTTONS, 220, 150, 30)).toBe(1);
+    expect(coveredButtons(BUTTONS, 500, 400, 600)).toBe(4);
+  });
+});
+
+describe("녹화된 설정 이벤트", () => {
+  it("녹화 당시 눈 설정/EAR 베이스라인을 적용", () => {
+    const pipeline = new TrackingPipeline();
+    pipeline.process({
+      type: "settings",
+      timestampMs: 0,
+      settings: {
+        eye: "left",
+        earBaseline: { open: 0.32, closed: 0.12 },
+        filter: DEFAULT_FILTER_SETTINGS,
+        selectionMode: "dwell",
+      },
+    });
+    expect(pipeline.gaze.eyeChoice).toBe("left");
+    expect(pipeline.gaze.eyeWeights).toEqual({ left: 1, right: 0 });
+    expect(pipeline.earThresholds.baseline).toEqual({ open: 0.32, closed: 0.12 });
+  });
+});
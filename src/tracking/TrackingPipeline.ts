@@ -0,0 +1,355 @@
+import { BlinkDetector } from "./BlinkDetector";
+import { AdaptiveEarThresholds, type EarBaseline } from "./EarBaseline";
+import {
+  GazeMapper,
+  type CalibrationSample,
+  type EyeChoice,
+  type GazeFeatures,
+  type GazeModel,
+  type GazePrediction,
+  poseOf,
+} from "./GazeMapper";
+import { ImplicitCalibrator } from "./ImplicitCalibrator";
+import { FixationDetector } from "./FixationDetector";
+import { PositionMonitor } from "./PositionMonitor";
+import { hasPose, headMotion, type HeadPose } from "./headPose";
+import { hasDistance, distanceGuide } from "./viewingDistance";
+import type { FilterSettings } from "./gazeFilters";
+import type { SourceFrame } from "./sources/GazeSource";
+import type { RecordedSettings } from "./SessionRecorder";
+import type { TrackerState } from "./useTracker";
+import {
+  GAZE_RECOVERY_FRAMES,
+  EYE_CLOSE_SELECT_SEC,
+  IMPLICIT_FEATURE_FRAMES,
+  IMPLICIT_MIN_FRAMES,
+  IMPLICIT_CLOSE_MAX_AGE_MS,
+  HEAD_MOTION_WINDOW_FRAMES,
+  DISTANCE_SMOOTHING,
+} from "../config";
+
+/**
+ * 입력 소스 프레임 → TrackerState 변환.
+ * 깜빡임 감지, 눈 감음 시선 고정(freeze), 눈 감기 선택 타이머, 시선 예측을 담당.
+ * 소스마다 하나씩 두어 캘리브레이션 상태가 소스 간에 섞이지 않게 함.
+ */
+export class TrackingPipeline {
+  readonly blink = new BlinkDetector();
+  readonly gaze = new GazeMapper();
+  readonly earThresholds = new AdaptiveEarThresholds();
+  readonly implicit = new ImplicitCalibrator(this.gaze);
+  readonly fixations = new FixationDetector();
+  readonly position = new PositionMonitor();
+
+  private prevTime = 0;
+  private fps = 0;
+  private lastGaze: GazePrediction = { x: 0, y: 0, errorPx: 0 };
+
+  // Gaze freeze state
+  private recoveryCount = 0; // 눈 뜬 후 남은 안정화 프레임
+  private wasFrozen = false; // 직전 프레임이 freeze 상태였는지
+
+  // 눈 감은 시간 추적
+  private eyeClosedStart = 0; // 눈 감기 시작한 timestamp (0 = 안 감음)
+  private eyeCloseSelectFired = false; // 이미 선택 발동했는지
+
+  // 암묵적 재캘리브레이션: 눈 감기 직전 특징 (감은 동안의 특징은 신뢰 불가)
+  private recentFeatures: GazeFeatures[] = [];
+  private featuresAtClose: { features: GazeFeatures; atMs: number } | null = null; // atMs: 프레임 시각
+
+  // 사용 중 머리 자세 (캘리브레이션 때 평균 자세와 비교)
+  private recentPoses: HeadPose[] = [];
+  private distanceCm = 0; // 홍채 크기 기반 거리 EMA (0 = 아직 없음)
+
+  process(frame: SourceFrame): Partial<TrackerState> | null {
+    if (frame.type === "calibration") {
+      this.calibrate(frame.samples);
+      return null;
+    }
+    if (frame.type === "settings") {
+      this.applySettings(frame.settings);
+      return null;
+    }
+    if (frame.type === "drift") {
+      this.correctDrift(frame.samples);
+      return null;
+    }
+    if (frame.type === "refit") {
+      this.implicit.refitNow(frame.samples);
+      return null;
+    }
+    if (frame.type === "camera") {
+      return frame.connected
+        ? { cameraConnected: true }
+        : { cameraConnected: false, faceDetected: false };
+    }
+
+    const now = frame.timestampMs;
+    if (this.prevTime > 0) {
+      const dt = now - this.prevTime;
+      if (dt > 0) {
+        this.fps = 0.9 * this.fps + 0.1 * (1000 / dt);
+      }
+    }
+    this.prevTime = now;
+
+    const landmarks = frame.type === "landmarks" ? frame.result?.landmarks : null;
+    const features = frame.type === "landmarks" ? frame.result?.features : null;
+    const faceDetected = frame.type === "landmarks" ? !!frame.result : frame.faceDetected;
+
+    if (!faceDetected) {
+      this.fixations.invalidate();
+      this.position.invalidate();
+      return {
+        faceDetected: false,
+        fps: this.fps,
+        fixation: null,
+        gazeEvents: this.fixations.drainEvents(),
+      };
+    }
+
+    const headPose = features && hasPose(features) ? poseOf(features) : null;
+    if (headPose) {
+      this.recentPoses.push(headPose);
+      if (this.recentPoses.length > HEAD_MOTION_WINDOW_FRAMES) this.recentPoses.shift();
+    }
+    const calibPose = this.gaze.lastDiagnostics?.headPose;
+
+    if (features && hasDistance(features)) {
+      this.distanceCm =
+        this.distanceCm === 0
+          ? features.dist
+          : this.distanceCm + DISTANCE_SMOOTHING * (features.dist - this.distanceCm);
+    }
+    const calibDistance = this.gaze.lastDiagnostics?.distance;
+
+    const blink = this.blink;
+    if (landmarks) blink.update(landmarks, now);
+    else if (frame.type === "gaze") blink.updateEar(frame.ear, now);
+
+    this.earThresholds.update(blink.ear);
+    const thresholds = this.earThresholds.thresholds;
+    blink.threshold = thresholds.blink;
+
+    const gaze = this.gaze;
+
+    // --- 눈 감음 판정: freeze 임계값 이하면 시선 고정, select 임계값 이하여야 선택 타이머 진행 ---
+    const eyesClosed = blink.ear < thresholds.freeze;
+    const selectClosed = blink.ear < thresholds.select;
+
+    // --- 눈 감은 지속시간 추적 ---
+    let eyeClosedSec = 0;
+    let eyeCloseSelect = false;
+
+    if (selectClosed) {
+      if (this.eyeClosedStart === 0) {
+        this.eyeClosedStart = now;
+        this.eyeCloseSelectFired = false;
+      }
+      eyeClosedSec = (now - this.eyeClosedStart) / 1000;
+
+      if (eyeClosedSec >= EYE_CLOSE_SELECT_SEC && !this.eyeCloseSelectFired) {
+        eyeCloseSelect = true;
+        this.eyeCloseSelectFired = true;
+      }
+    } else {
+      this.eyeClosedStart = 0;
+    }
+
+    // --- 눈 감기 직전 특징 보관 (선택 확정 시 학습 샘플) ---
+    if (eyesClosed) {
+      if (this.recentFeatures.length > 0) {
+        this.featuresAtClose =
+          this.recentFeatures.length >= IMPLICIT_MIN_FRAMES
+            ? { features: GazeMapper.cleanFrames(this.recentFeatures, 0), atMs: now }
+            : null;
+        this.recentFeatures = [];
+      }
+    } else if (features && this.recoveryCount === 0) {
+      this.recentFeatures.push(features);
+      if (this.recentFeatures.length > IMPLICIT_FEATURE_FRAMES) this.recentFeatures.shift();
+      this.position.update(features, now);
+    }
+    this.implicit.tick(now);
+
+    // --- 시선 업데이트 판정 ---
+    let shouldFreeze = eyesClosed;
+
+    if (!eyesClosed && this.recoveryCount > 0) {
+      // 눈 뜬 직후 안정화 대기
+      shouldFreeze = true;
+      this.recoveryCount--;
+    } else if (eyesClosed) {
+      // 눈 감으면 recovery 카운터 리셋
+      this.recoveryCount = GAZE_RECOVERY_FRAMES;
+    }
+
+    // 시선 예측(화면좌표 매핑)만 freeze 적용
+    // gaze 프레임은 이미 화면 좌표 → 캘리브레이션 불필요
+    const direct = frame.type === "gaze";
+    let gazeX = this.lastGaze.x,
+      gazeY = this.lastGaze.y,
+      gazeValid = direct || gaze.isCalibrated;
+
+    if (!shouldFreeze && (direct || gaze.isCalibrated)) {
+      // freeze → active 전환: 스무딩 버퍼 리셋 (stale 데이터 제거)
+      if (this.wasFrozen) {
+        gaze.resetSmoothing();
+        this.wasFrozen = false;
+      }
+      // 직접 지정 좌표 (마우스/스크립트)는 오차 없음
+      const predicted = direct ? { x: frame.x, y: frame.y, errorPx: 0 } : gaze.predict(features!, now);
+      gazeX = predicted.x;
+      gazeY = predicted.y;
+      this.lastGaze = predicted;
+      gazeValid = true;
+
+      // 고정/도약 분류는 필터 전 좌표로 (필터 지연이 도약 시점을 흐리지 않도록)
+      const raw = direct ? predicted : gaze.rawPrediction(features!);
+      this.fixations.update(raw.x, raw.y, now);
+    } else {
+      this.fixations.invalidate();
+    }
+    if (shouldFreeze) {
+      this.wasFrozen = true;
+    }
+
+    return {
+      isLoading: false,
+      error: null,
+      errorKind: null,
+      faceDetected: true,
+      ear: blink.ear,
+      leftEar: blink.leftEar,
+      rightEar: blink.rightEar,
+      blinkCount: blink.blinkCount,
+      doubleBlink: blink.doubleBlink,
+      irisRx: features?.rx ?? 0,
+      irisRy: features?.ry ?? 0,
+      headX: features?.hx ?? 0,
+      headY: features?.hy ?? 0,
+      noseX: features?.nx ?? 0,
+      noseY: features?.ny ?? 0,
+      eyeLidOpen: features?.ey ?? 0,
+      headPose,
+      headMotion:
+        calibPose && this.recentPoses.length > 0 ? headMotion(this.recentPoses, calibPose) : null,
+      viewingDistanceCm: this.distanceCm || null,
+      distanceGuide:
+        calibDistance && this.distanceCm > 0 ? distanceGuide(this.distanceCm, calibDistance) : null,
+      position: this.position.status,
+      features: features ?? null,
+      gazeX,
+      gazeY,
+      gazeValid,
+      gazeErrorPx: this.lastGaze.errorPx,
+      fps: this.fps,
+      eyesClosed,
+      eyeClosedSec,
+      eyeCloseSelect,
+      earThresholds: thresholds,
+      earBaseline: this.earThresholds.baseline,
+      implicitSamples: this.implicit.sampleCount,
+      fixation: this.fixations.fixation,
+      gazeEvents: this.fixations.drainEvents(),
+      fixationStats: this.fixations.stats,
+    };
+  }
+
+  /** 캘리브레이션 — 결정된 눈별 가중치를 깜빡임 감지에도 적용 */
+  calibrate(samples: CalibrationSample[]): boolean {
+    const ok = this.gaze.calibrate(samples);
+    if (ok) {
+      this.implicit.reset();
+      this.position.setReference(samples);
+    }
+    this.blink.eyeWeights = this.gaze.eyeWeights;
+    return ok;
+  }
+
+  /** 저장된 학습 결과 복원 (samples는 창 크기 대비 정규화 좌표) */
+  restoreCalibration(model: GazeModel, samples: CalibrationSample[]): void {
+    this.gaze.loadModel(model, samples);
+    this.implicit.reset();
+    this.position.setReference(samples);
+    this.blink.eyeWeights = this.gaze.eyeWeights;
+  }
+
+  resetCalibration(): void {
+    this.gaze.reset();
+    this.implicit.reset();
+    this.fixations.reset();
+    this.position.reset();
+    this.blink.eyeWeights = this.gaze.eyeWeights;
+  }
+
+  /** 빠른 드리프트 보정 — 성공하면 보정 때 머리 위치를 새 기준으로 (보정이 그 자세에 맞춰짐) */
+  correctDrift(samples: CalibrationSample[]): boolean {
+    const ok = this.gaze.fitDriftCorrection(samples);
+    if (ok) this.position.setReference(samples);
+    return ok;
+  }
+
+  /**
+   * 선택 확정 — 선택 순간 시선이 target(버튼 중심)을 보고 있었다고 보고 학습 후보로.
+   * 눈을 뜬 채 선택(응시)했으면 최근 특징, 눈 감기/깜빡임으로 선택했으면 감기 직전 특징.
+   * 감기 직전 특징이 (마지막 프레임 시각 기준) IMPLICIT_CLOSE_MAX_AGE_MS보다 오래됐으면 이번 선택과 무관한 감기이므로 버림
+   */
+  confirmSelection(target: { x: number; y: number }, nowMs: number): void {
+    const atClose = this.featuresAtClose;
+    const features =
+      this.recentFeatures.length >= IMPLICIT_MIN_FRAMES
+        ? GazeMapper.cleanFrames(this.recentFeatures, 0)
+        : atClose && this.prevTime - atClose.atMs <= IMPLICIT_CLOSE_MAX_AGE_MS
+          ? atClose.features
+          : null;
+    if (features) this.implicit.propose(features, target, nowMs);
+    this.featuresAtClose = null;
+  }
+
+  /** 직전 선택 취소 ("뒤로") — 학습 후보 폐기 */
+  rejectLastSelection(): void {
+    this.implicit.reject();
+  }
+
+  /** 환자별 EAR 베이스라인 적용 (null = 기본 고정 임계값) */
+  setEarBaseline(baseline: EarBaseline | null): void {
+    this.earThresholds.setBaseline(baseline);
+    this.blink.threshold = this.earThresholds.thresholds.blink;
+  }
+
+  /** 프로필의 시선 필터 적용 (캘리브레이션 유지) */
+  setFilter(settings: FilterSettings): void {
+    this.gaze.setFilter(settings);
+  }
+
+  /** 녹화된 프로필 설정 적용 — 눈 설정이 바뀌면 라이브와 같이 기존 캘리브레이션 폐기 */
+  applySettings(settings: RecordedSettings): void {
+    if (settings.eye !== this.gaze.eyeChoice) {
+      this.resetCalibration();
+      this.setEyeChoice(settings.eye);
+    }
+    this.setEarBaseline(settings.earBaseline);
+    this.setFilter(settings.filter);
+  }
+
+  /** 프로필의 사용 가능한 눈 설정 적용 (변경 시 재캘리브레이션 필요) */
+  setEyeChoice(choice: EyeChoice): void {
+    this.gaze.setEyeChoice(choice);
+    this.blink.eyeWeights = this.gaze.eyeWeights;
+  }
+
+  /** 소스 재개 시 호출 — 타이밍/스무딩 상태만 초기화 (캘리브레이션 유지) */
+  resume(): void {
+    this.prevTime = 0;
+    this.recoveryCount = 0;
+    this.eyeClosedStart = 0;
+    this.recentFeatures = [];
+    this.featuresAtClose = null;
+    this.gaze.resetSmoothing();
+    this.fixations.invalidate();
+    this.position.invalidate();
+    this.recentPoses = [];
+    this.distanceCm = 0;
+  }
+}
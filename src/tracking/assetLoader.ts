@@ -0,0 +1,178 @@
+import { FilesetResolver } from "@mediapipe/tasks-vision";
+import {
+  MEDIAPIPE_LOCAL_DIR,
+  MEDIAPIPE_ASSET_PROTOCOL,
+  MEDIAPIPE_CDN_FALLBACK,
+  MEDIAPIPE_WASM_CDN,
+  FACE_LANDMARKER_MODEL,
+} from "../config";
+
+const MODEL_FILE = "face_landmarker.task";
+const WASM_SIMD = "wasm/vision_wasm_internal";
+const WASM_NOSIMD = "wasm/vision_wasm_nosimd_internal";
+
+/** MediaPipe가 WASM 로더/바이너리를 읽어 갈 위치 (라이브러리가 타입을 내보내지 않아 반환형에서 추출) */
+export type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+interface AssetManifest {
+  tasksVisionVersion: string;
+  files: Record<string, string>; // 상대 경로 → SHA-256 (hex)
+}
+
+export interface FaceLandmarkerAssets {
+  source: "local" | "cdn";
+  /** 로컬 번들: 검증한 바이트로 만든 blob URL — MediaPipe가 파일을 다시 받지 않음 */
+  wasmFileset: WasmFileset;
+  /** 로컬 번들: 무결성 검사를 통과한 모델 바이트 */
+  modelAssetBuffer?: Uint8Array;
+  /** CDN 폴백: 모델 URL */
+  modelAssetPath?: string;
+  /** 초기화가 끝나면 호출 — blob URL 해제 */
+  release: () => void;
+}
+
+/**
+ * 워커가 실행해도 되는 WASM 로더 URL (release 전까지만 유효).
+ * 로컬 번들은 검증한 바이트의 blob URL, CDN 폴백을 켠 경우에만 설정된 CDN 로더 URL
+ */
+const allowedLoaderUrls = new Set<string>();
+
+/** 워커의 WASM 로더 실행 전 확인용 — 허용된 URL이 아니면 실행하지 않는다 */
+export function isAllowedLoaderUrl(url: string): boolean {
+  return allowedLoaderUrls.has(url);
+}
+
+/** 에셋 로딩 실패 — asset에 문제가 된 파일 이름을 담는다 */
+export class AssetLoadError extends Error {
+  constructor(
+    public readonly asset: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "AssetLoadError";
+  }
+}
+
+/**
+ * 로컬 에셋 기본 URL.
+ * 개발 서버(http)는 public/을 그대로 서빙하고, 패키징 빌드(file://)는 fetch가
+ * 막혀 있으므로 main 프로세스에 등록한 커스텀 프로토콜을 사용한다.
+ */
+export function defaultAssetBaseUrl(): string {
+  if (location.protocol === "file:") {
+    return `${MEDIAPIPE_ASSET_PROTOCOL}://${MEDIAPIPE_LOCAL_DIR}`;
+  }
+  return new URL(MEDIAPIPE_LOCAL_DIR, document.baseURI).href;
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function fetchManifest(baseUrl: string): Promise<AssetManifest | null> {
+  try {
+    const res = await fetch(new URL("manifest.json", baseUrl));
+    if (!res.ok) return null;
+    const manifest = (await res.json()) as AssetManifest;
+    return manifest.files ? manifest : null;
+  } catch {
+    // 404 대신 index.html이 돌아오는 경우(개발 서버 SPA 폴백)도 여기로 옴
+    return null;
+  }
+}
+
+async function fetchVerified(
+  baseUrl: string,
+  file: string,
+  expectedHash: string
+): Promise<ArrayBuffer> {
+  let data: ArrayBuffer;
+  try {
+    const res = await fetch(new URL(file, baseUrl));
+    if (!res.ok) {
+      throw new AssetLoadError(file, `에셋 파일이 없습니다: ${file} (HTTP ${res.status})`);
+    }
+    data = await res.arrayBuffer();
+  } catch (err) {
+    if (err instanceof AssetLoadError) throw err;
+    throw new AssetLoadError(file, `에셋 파일을 읽을 수 없습니다: ${file}`);
+  }
+
+  const actual = await sha256Hex(data);
+  if (actual !== expectedHash) {
+    throw new AssetLoadError(
+      file,
+      `에셋 무결성 검사 실패: ${file} (파일이 손상되었습니다. 프로그램을 다시 설치해 주세요)`
+    );
+  }
+  return data;
+}
+
+/**
+ * Face Landmarker WASM + 모델 위치 결정.
+ *
+ * 1. 로컬 번들(manifest.json)이 있으면 모든 파일의 SHA-256을 검사한 뒤 사용
+ *    — 파일 누락/손상은 해당 파일 이름과 함께 AssetLoadError
+ *    — WASM은 검사한 바이트를 blob URL로 넘겨, 검사 후 파일이 바뀌어도 영향 없음
+ * 2. 로컬 번들이 아예 없고 MEDIAPIPE_CDN_FALLBACK이면 CDN 사용 (기본은 꺼짐)
+ */
+export async function loadFaceLandmarkerAssets(
+  baseUrl = defaultAssetBaseUrl()
+): Promise<FaceLandmarkerAssets> {
+  const manifest = await fetchManifest(baseUrl);
+
+  if (!manifest) {
+    if (!MEDIAPIPE_CDN_FALLBACK) {
+      throw new AssetLoadError(
+        "manifest.json",
+        "MediaPipe 로컬 에셋이 없습니다: manifest.json (npm run assets 로 생성)"
+      );
+    }
+    console.warn("[Assets] 로컬 MediaPipe 에셋 없음 → CDN 폴백 사용");
+    const wasmFileset = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_CDN);
+    allowedLoaderUrls.add(wasmFileset.wasmLoaderPath);
+    return {
+      source: "cdn",
+      wasmFileset,
+      modelAssetPath: FACE_LANDMARKER_MODEL,
+      release: () => allowedLoaderUrls.delete(wasmFileset.wasmLoaderPath),
+    };
+  }
+
+  if (!manifest.files[MODEL_FILE]) {
+    throw new AssetLoadError(MODEL_FILE, `매니페스트에 모델이 없습니다: ${MODEL_FILE}`);
+  }
+
+  const verified = new Map<string, ArrayBuffer>();
+  for (const [file, hash] of Object.entries(manifest.files)) {
+    verified.set(file, await fetchVerified(baseUrl, file, hash));
+  }
+
+  const wasm = (await FilesetResolver.isSimdSupported()) ? WASM_SIMD : WASM_NOSIMD;
+  const urls: string[] = [];
+  const objectUrl = (file: string, type: string): string => {
+    const data = verified.get(file);
+    if (!data) throw new AssetLoadError(file, `매니페스트에 WASM 파일이 없습니다: ${file}`);
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    urls.push(url);
+    allowedLoaderUrls.add(url);
+    return url;
+  };
+
+  return {
+    source: "local",
+    wasmFileset: {
+      wasmLoaderPath: objectUrl(`${wasm}.js`, "text/javascript"),
+      wasmBinaryPath: objectUrl(`${wasm}.wasm`, "application/wasm"),
+    },
+    modelAssetBuffer: new Uint8Array(verified.get(MODEL_FILE)!),
+    release: () =>
+      urls.forEach((url) => {
+        allowedLoaderUrls.delete(url);
+        URL.revokeObjectURL(url);
+      }),
+  };
+}
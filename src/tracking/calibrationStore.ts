@@ -0,0 +1,72 @@
+import { readStored, writeStored } from "../storage";
+import type { CalibrationSample, EyeChoice, GazeModel } from "./GazeMapper";
+import { compareDisplays, type DisplayInfo } from "../display";
+
+/** 현재 사용 중인 카메라 (track 설정 기준) */
+export interface CameraInfo {
+  deviceId: string | null;
+  label: string | null;
+  width: number;
+  height: number;
+}
+
+/** 모델/샘플을 0~1 정규화 화면 좌표로 저장하고 디스플레이에 묶음 */
+export interface SavedCalibration {
+  version: 2;
+  savedAt: string; // ISO 시각
+  profileId: string;
+  eye: EyeChoice; // 학습 당시 눈 설정 (바뀌면 가중치가 달라 재사용 불가)
+  display: DisplayInfo; // 학습 당시 디스플레이 (다른 모니터면 재사용 불가)
+  camera: CameraInfo | null;
+  zoom: number;
+  model: GazeModel;
+  samples: CalibrationSample[]; // 0~1 정규화 좌표
+}
+
+/** 환자별로 가장 최근 캘리브레이션 하나만 보관 */
+function storageName(profileId: string): string {
+  return `calibration-${profileId}`;
+}
+
+export async function saveCalibration(calibration: SavedCalibration): Promise<void> {
+  await writeStored(storageName(calibration.profileId), calibration);
+}
+
+export async function loadLatestCalibration(profileId: string): Promise<SavedCalibration | null> {
+  try {
+    const saved = await readStored<SavedCalibration>(storageName(profileId));
+    return saved?.version === 2 ? saved : null;
+  } catch (err) {
+    console.warn("[Calibration] 저장된 캘리브레이션을 읽을 수 없습니다:", err);
+    return null;
+  }
+}
+
+/**
+ * 저장된 캘리브레이션을 지금 그대로 쓸 수 없는 이유 (쓸 수 있으면 null).
+ * 디스플레이·창 영역(배율/해상도 변경은 정규화 좌표로 다시 맞춤), 카메라 장치·화면비(특징 좌표계), 눈 설정이 같아야 함.
+ */
+export function calibrationMismatch(
+  saved: SavedCalibration,
+  current: { eye: EyeChoice; camera: CameraInfo | null; display: DisplayInfo }
+): string | null {
+  const change = compareDisplays(saved.display, current.display);
+  if (change.kind === "recalibrate") return change.reason;
+  if (saved.eye !== current.eye) {
+    return "사용할 눈 설정이 바뀌었습니다";
+  }
+  return saved.camera && current.camera ? cameraMismatch(saved.camera, current.camera) : null;
+}
+
+/** 캘리브레이션 당시 카메라와 지금 카메라가 다른 이유 (같은 장치·화면비면 null — 재연결해도 유지) */
+export function cameraMismatch(bound: CameraInfo, current: CameraInfo): string | null {
+  const a = bound;
+  const b = current;
+  const sameDevice =
+    (a.deviceId !== null && a.deviceId === b.deviceId) || (a.label !== null && a.label === b.label);
+  if (!sameDevice) return `카메라가 바뀌었습니다 (${a.label ?? "알 수 없음"} → ${b.label ?? "알 수 없음"})`;
+  if (Math.abs(a.width / a.height - b.width / b.height) > 0.01) {
+    return `카메라 화면비가 바뀌었습니다 (${a.width}x${a.height} → ${b.width}x${b.height})`;
+  }
+  return null;
+}
@@ -0,0 +1,74 @@
+import {
+  CAMERA_DEFAULT_WIDTH,
+  CAMERA_DEFAULT_HEIGHT,
+  CAMERA_DEFAULT_FPS,
+} from "../config";
+
+export interface CameraSettings {
+  deviceId: string | null; // null = 기본 카메라 (전면)
+  label: string | null; // 장치 ID가 바뀌었을 때 이름으로 다시 찾기 위함
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+const STORAGE_KEY = "mindmaker.camera";
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  label: null,
+  width: CAMERA_DEFAULT_WIDTH,
+  height: CAMERA_DEFAULT_HEIGHT,
+  frameRate: CAMERA_DEFAULT_FPS,
+};
+
+export function loadCameraSettings(): CameraSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CAMERA_SETTINGS;
+    return { ...DEFAULT_CAMERA_SETTINGS, ...(JSON.parse(raw) as Partial<CameraSettings>) };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+}
+
+export function saveCameraSettings(settings: CameraSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((d) => d.kind === "videoinput");
+}
+
+/**
+ * 설정에 맞는 카메라 스트림 열기.
+ * 저장된 장치가 없으면(분리/ID 변경) 같은 이름의 장치 → 기본 카메라 순으로 대체하고 fallback=true.
+ */
+export async function openCamera(
+  settings: CameraSettings
+): Promise<{ stream: MediaStream; fallback: boolean }> {
+  const size = {
+    width: { ideal: settings.width },
+    height: { ideal: settings.height },
+    frameRate: { ideal: settings.frameRate },
+  };
+
+  if (settings.deviceId) {
+    const cameras = await listCameras();
+    const match =
+      cameras.find((d) => d.deviceId === settings.deviceId) ??
+      cameras.find((d) => settings.label && d.label === settings.label);
+    if (match) {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { ...size, deviceId: { exact: match.deviceId } },
+      });
+      return { stream, fallback: false };
+    }
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { ...size, facingMode: "user" },
+  });
+  return { stream, fallback: settings.deviceId !== null };
+}
@@ -0,0 +1,100 @@
+import { TrackingPipeline } from "./TrackingPipeline";
+import { GazeMapper } from "./GazeMapper";
+import { decodeLandmarks, eventFrame, type SessionRecording } from "./SessionRecorder";
+import { filterLabel, type FilterSettings } from "./gazeFilters";
+import { FILTER_COMPARE_WINDOW_MS, FILTER_COMPARE_MOVE_PX } from "../config";
+
+export interface FilterComparison {
+  settings: FilterSettings;
+  label: string;
+  fixationJitterPx: number; // 고정 구간 프레임당 커서 이동 (작을수록 안정)
+  movementLagPx: number; // 이동 구간에서 필터 전 예측과의 거리 (작을수록 빠르게 따라감)
+  fixationFrames: number;
+  movementFrames: number;
+}
+
+/**
+ * 녹화된 세션으로 필터 비교 — 같은 프레임을 필터만 다른 파이프라인에 동시에 넣고,
+ * 필터 전 예측(rawPrediction)을 기준으로 고정 구간 떨림과 이동 구간 지연을 측정.
+ * 이동 구간 = FILTER_COMPARE_WINDOW_MS 동안 필터 전 예측이 FILTER_COMPARE_MOVE_PX 넘게 움직인 프레임.
+ * 눈 설정/EAR 베이스라인/드리프트 보정/재피팅은 녹화 당시 그대로 재현하고 필터만 후보로 바꿈.
+ * 녹화에 캘리브레이션이 없으면 null.
+ */
+export function compareFilters(
+  rec: SessionRecording,
+  candidates: FilterSettings[]
+): FilterComparison[] | null {
+  if (!rec.events.some((e) => e.type === "calibration")) return null;
+
+  const pipelines = candidates.map(() => new TrackingPipeline());
+  const stats = candidates.map(() => ({
+    jitter: 0,
+    fixations: 0,
+    lag: 0,
+    moves: 0,
+    prev: null as { x: number; y: number } | null,
+  }));
+  let rawHistory: { t: number; x: number; y: number }[] = [];
+  let eventIndex = 0;
+
+  for (const frame of rec.frames) {
+    while (eventIndex < rec.events.length && rec.events[eventIndex].t <= frame.t) {
+      const event = rec.events[eventIndex++];
+      pipelines.forEach((p, i) => {
+        p.process(
+          event.type === "settings"
+            ? eventFrame({ ...event, settings: { ...event.settings, filter: candidates[i] } }, 0)
+            : eventFrame(event, 0)
+        );
+      });
+    }
+
+    const landmarks = frame.landmarks ? decodeLandmarks(frame.landmarks) : null;
+    const { headPose } = frame;
+    const result = landmarks
+      ? { landmarks, headPose, features: GazeMapper.extractFeatures(landmarks, headPose) }
+      : null;
+    const updates = pipelines.map((p) =>
+      p.process({ type: "landmarks", timestampMs: frame.t, zoom: frame.zoom, result })
+    );
+
+    // 모든 파이프라인이 같은 캘리브레이션/깜빡임 판정을 공유 → 첫 번째 기준으로 유효 프레임 판정
+    const first = updates[0];
+    if (!result || !first?.gazeValid || first.eyesClosed || !pipelines[0].gaze.isCalibrated) {
+      rawHistory = [];
+      for (const s of stats) s.prev = null;
+      continue;
+    }
+
+    const raw = pipelines[0].gaze.rawPrediction(result.features);
+    rawHistory.push({ t: frame.t, ...raw });
+    while (rawHistory[0].t < frame.t - FILTER_COMPARE_WINDOW_MS) rawHistory.shift();
+    const moving =
+      Math.hypot(raw.x - rawHistory[0].x, raw.y - rawHistory[0].y) > FILTER_COMPARE_MOVE_PX;
+
+    updates.forEach((u, i) => {
+      const s = stats[i];
+      const out = { x: u!.gazeX!, y: u!.gazeY! };
+      if (moving) {
+        s.lag += Math.hypot(out.x - raw.x, out.y - raw.y);
+        s.moves++;
+      } else if (s.prev) {
+        s.jitter += Math.hypot(out.x - s.prev.x, out.y - s.prev.y);
+        s.fixations++;
+      }
+      s.prev = out;
+    });
+  }
+
+  return candidates.map((settings, i) => {
+    const s = stats[i];
+    return {
+      settings,
+      label: filterLabel(settings),
+      fixationJitterPx: s.fixations > 0 ? s.jitter / s.fixations : 0,
+      movementLagPx: s.moves > 0 ? s.lag / s.moves : 0,
+      fixationFrames: s.fixations,
+      movementFrames: s.moves,
+    };
+  });
+}
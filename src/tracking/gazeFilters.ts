@@ -0,0 +1,268 @@
+import {
+  SMOOTHING_ALPHA,
+  MOVING_AVG_SIZE,
+  MIN_MOVE_PX,
+  ONE_EURO_MIN_CUTOFF,
+  ONE_EURO_BETA,
+  ONE_EURO_D_CUTOFF,
+  KALMAN_PROCESS_NOISE,
+  KALMAN_MEASUREMENT_NOISE,
+  KALMAN_SACCADE_GATE,
+  ONE_EURO_MIN_CUTOFF_FLOOR,
+  KALMAN_NOISE_FLOOR,
+} from "../config";
+
+export type FilterKind = "legacy" | "one-euro" | "kalman";
+
+/** 시선 필터 설정 (환자 프로필별) — 선택하지 않은 종류의 값도 보관해 다시 바꿀 때 유지 */
+export interface FilterSettings {
+  kind: FilterKind;
+  minCutoff: number; // One Euro: 고정 중 차단 주파수 (Hz)
+  beta: number; // One Euro: 시선 속도(px/s)당 차단 주파수 증가
+  processNoise: number; // Kalman: 가속도 잡음 (px/s²)
+  measurementNoise: number; // Kalman: 측정 잡음 표준편차 (px)
+}
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  kind: "one-euro",
+  minCutoff: ONE_EURO_MIN_CUTOFF,
+  beta: ONE_EURO_BETA,
+  processNoise: KALMAN_PROCESS_NOISE,
+  measurementNoise: KALMAN_MEASUREMENT_NOISE,
+};
+
+export const FILTER_KIND_LABELS: Record<FilterKind, string> = {
+  legacy: "기존 (EMA + 이동 평균)",
+  "one-euro": "One Euro (속도 적응)",
+  kalman: "칼만 (등속 모델)",
+};
+
+/** 필터 요약 (비교 결과/로그 표시용) */
+export function filterLabel(s: FilterSettings): string {
+  if (s.kind === "one-euro") return `One Euro (min ${s.minCutoff}Hz, β ${s.beta})`;
+  if (s.kind === "kalman") return `칼만 (q ${s.processNoise}, r ${s.measurementNoise}px)`;
+  return FILTER_KIND_LABELS.legacy;
+}
+
+/** 회귀 예측 → 화면에 표시할 시선 좌표. tMs: 프레임 캡처 시각 (재생 시 원본 시각) */
+export interface GazeFilter {
+  apply(x: number, y: number, tMs: number): { x: number; y: number };
+  /** freeze 해제/재캘리브레이션 시 — 이전 상태 폐기 */
+  reset(): void;
+}
+
+const DEFAULT_DT_SEC = 1 / 30;
+const MAX_DT_SEC = 0.2; // 프레임이 끊겼다 이어지면 한 프레임 간격으로 간주
+
+/** 이전 프레임과의 시간 간격 (초) */
+function frameDt(prevMs: number | null, tMs: number): number {
+  if (prevMs === null || tMs <= prevMs) return DEFAULT_DT_SEC;
+  return Math.min((tMs - prevMs) / 1000, MAX_DT_SEC);
+}
+
+/** 기존 3단계 스무딩: EMA → 이동 평균 → 미세 떨림 무시 (속도와 무관하게 고정 강도) */
+class LegacyFilter implements GazeFilter {
+  private first = true;
+  private smoothX = 0;
+  private smoothY = 0;
+  private outputX = 0;
+  private outputY = 0;
+  private bufX: number[] = [];
+  private bufY: number[] = [];
+
+  apply(x: number, y: number): { x: number; y: number } {
+    // Stage 1: Exponential moving average
+    if (this.first) {
+      this.smoothX = x;
+      this.smoothY = y;
+      this.outputX = x;
+      this.outputY = y;
+      this.first = false;
+    } else {
+      this.smoothX = SMOOTHING_ALPHA * x + (1 - SMOOTHING_ALPHA) * this.smoothX;
+      this.smoothY = SMOOTHING_ALPHA * y + (1 - SMOOTHING_ALPHA) * this.smoothY;
+    }
+
+    // Stage 2: Moving average buffer
+    this.bufX.push(this.smoothX);
+    this.bufY.push(this.smoothY);
+    if (this.bufX.length > MOVING_AVG_SIZE) this.bufX.shift();
+    if (this.bufY.length > MOVING_AVG_SIZE) this.bufY.shift();
+
+    const avgX = this.bufX.reduce((a, b) => a + b, 0) / this.bufX.length;
+    const avgY = this.bufY.reduce((a, b) => a + b, 0) / this.bufY.length;
+
+    // Stage 3: Minimum movement threshold
+    if (Math.hypot(avgX - this.outputX, avgY - this.outputY) > MIN_MOVE_PX) {
+      this.outputX = avgX;
+      this.outputY = avgY;
+    }
+    return { x: this.outputX, y: this.outputY };
+  }
+
+  reset(): void {
+    this.first = true;
+    this.bufX = [];
+    this.bufY = [];
+  }
+}
+
+/** 1차 저역 통과 계수 (차단 주파수 cutoff Hz, 간격 dt초) */
+function lowPassAlpha(cutoff: number, dt: number): number {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+}
+
+/**
+ * One Euro 필터 (Casiez et al., 2012) — 차단 주파수 = minCutoff + β·속도.
+ * 고정 중(느림)에는 강하게, 도약 중(빠름)에는 약하게 스무딩. 두 축이 같은 2D 속도를 사용.
+ */
+class OneEuroFilter implements GazeFilter {
+  private prevMs: number | null = null;
+  private x = 0;
+  private y = 0;
+  private dx = 0;
+  private dy = 0;
+
+  constructor(private readonly settings: FilterSettings) {}
+
+  apply(x: number, y: number, tMs: number): { x: number; y: number } {
+    if (this.prevMs === null) {
+      this.prevMs = tMs;
+      this.x = x;
+      this.y = y;
+      return { x, y };
+    }
+    const dt = frameDt(this.prevMs, tMs);
+    this.prevMs = tMs;
+
+    const aD = lowPassAlpha(ONE_EURO_D_CUTOFF, dt);
+    this.dx += aD * ((x - this.x) / dt - this.dx);
+    this.dy += aD * ((y - this.y) / dt - this.dy);
+
+    const cutoff = this.settings.minCutoff + this.settings.beta * Math.hypot(this.dx, this.dy);
+    const a = lowPassAlpha(cutoff, dt);
+    this.x += a * (x - this.x);
+    this.y += a * (y - this.y);
+    return { x: this.x, y: this.y };
+  }
+
+  reset(): void {
+    this.prevMs = null;
+    this.dx = 0;
+    this.dy = 0;
+  }
+}
+
+/** 등속 모델 칼만 필터 한 축 — 상태 [위치, 속도] */
+class KalmanAxis {
+  p = 0;
+  v = 0;
+  private P = [
+    [0, 0],
+    [0, 0],
+  ];
+
+  init(z: number, r: number): void {
+    this.p = z;
+    this.v = 0;
+    this.P = [
+      [r * r, 0],
+      [0, 0],
+    ];
+  }
+
+  /** 예측 단계 → 측정 z와의 차이(innovation)와 그 분산 */
+  predict(dt: number, q: number, z: number, r: number): { innovation: number; variance: number } {
+    const P = this.P;
+    this.p += this.v * dt;
+    // P = F P Fᵀ + Q (F = [[1, dt], [0, 1]], Q = 가속도 잡음의 이산화)
+    const p00 = P[0][0] + dt * (P[1][0] + P[0][1]) + dt * dt * P[1][1] + (q * q * dt ** 4) / 4;
+    const p01 = P[0][1] + dt * P[1][1] + (q * q * dt ** 3) / 2;
+    const p11 = P[1][1] + q * q * dt * dt;
+    this.P = [
+      [p00, p01],
+      [p01, p11],
+    ];
+    return { innovation: z - this.p, variance: p00 + r * r };
+  }
+
+  update(innovation: number, variance: number): void {
+    const P = this.P;
+    const k0 = P[0][0] / variance;
+    const k1 = P[1][0] / variance;
+    this.p += k0 * innovation;
+    this.v += k1 * innovation;
+    this.P = [
+      [(1 - k0) * P[0][0], (1 - k0) * P[0][1]],
+      [P[1][0] - k1 * P[0][0], P[1][1] - k1 * P[0][1]],
+    ];
+  }
+}
+
+/**
+ * 등속 모델 칼만 필터. 예측과 측정의 차이가 잡음 대비 KALMAN_SACCADE_GATE배를 넘으면
+ * 도약(saccade)으로 보고 측정 위치로 즉시 이동 — 고정 중에는 강한 스무딩, 도약에는 지연 없음.
+ */
+class KalmanFilter implements GazeFilter {
+  private prevMs: number | null = null;
+  private readonly ax = new KalmanAxis();
+  private readonly ay = new KalmanAxis();
+
+  constructor(private readonly settings: FilterSettings) {}
+
+  apply(x: number, y: number, tMs: number): { x: number; y: number } {
+    const { processNoise: q, measurementNoise: r } = this.settings;
+    if (this.prevMs === null) {
+      this.prevMs = tMs;
+      this.ax.init(x, r);
+      this.ay.init(y, r);
+      return { x, y };
+    }
+    const dt = frameDt(this.prevMs, tMs);
+    this.prevMs = tMs;
+
+    const px = this.ax.predict(dt, q, x, r);
+    const py = this.ay.predict(dt, q, y, r);
+    const surprise = Math.hypot(
+      px.innovation / Math.sqrt(px.variance),
+      py.innovation / Math.sqrt(py.variance)
+    );
+    if (surprise > KALMAN_SACCADE_GATE) {
+      this.ax.init(x, r);
+      this.ay.init(y, r);
+    } else {
+      this.ax.update(px.innovation, px.variance);
+      this.ay.update(py.innovation, py.variance);
+    }
+    return { x: this.ax.p, y: this.ay.p };
+  }
+
+  reset(): void {
+    this.prevMs = null;
+  }
+}
+
+/** 하한 적용 — 숫자가 아니면 기본값 */
+function atLeast(value: number, floor: number, fallback: number): number {
+  return Number.isFinite(value) ? Math.max(value, floor) : fallback;
+}
+
+export function createGazeFilter(input: FilterSettings): GazeFilter {
+  // 저장된 프로필 값이 0/음수여도 필터가 멈추거나 NaN을 내지 않도록
+  const settings: FilterSettings = {
+    kind: input.kind,
+    minCutoff: atLeast(input.minCutoff, ONE_EURO_MIN_CUTOFF_FLOOR, ONE_EURO_MIN_CUTOFF),
+    beta: atLeast(input.beta, 0, ONE_EURO_BETA),
+    processNoise: atLeast(input.processNoise, KALMAN_NOISE_FLOOR, KALMAN_PROCESS_NOISE),
+    measurementNoise: atLeast(input.measurementNoise, KALMAN_NOISE_FLOOR, KALMAN_MEASUREMENT_NOISE),
+  };
+  switch (settings.kind) {
+    case "legacy":
+      return new LegacyFilter();
+    case "one-euro":
+      return new OneEuroFilter(settings);
+    case "kalman":
+      return new KalmanFilter(settings);
+  }
+}
@@ -0,0 +1,87 @@
+import type { CropRect } from "./AutoFramer";
+import { FACE_GEOMETRY_VERTICAL_FOV_DEG } from "../config";
+
+/**
+ * MediaPipe 얼굴 변환 행렬에서 얻은 머리 자세.
+ * 각도는 도(°), 이동은 카메라 좌표계 cm (z는 카메라 앞쪽이 음수).
+ */
+export interface HeadPose {
+  yaw: number; // 좌우 회전 (y축)
+  pitch: number; // 상하 회전 (x축)
+  roll: number; // 기울임 (z축)
+  tx: number;
+  ty: number;
+  tz: number;
+}
+
+/** 기준 자세에서 벗어난 정도 (RMS) */
+export interface HeadMotion {
+  rotationDeg: number; // yaw/pitch/roll 합성
+  translationCm: number;
+}
+
+const DEG = 180 / Math.PI;
+
+/**
+ * 4x4 변환 행렬 (column-major) → 자세.
+ * 줌 크롭 프레임이면 MediaPipe는 크롭을 전체 카메라 화면으로 보고 계산하므로
+ * 거리는 크롭 배율만큼, 좌우/상하 위치는 크롭 중심 오프셋만큼 되돌림 (크롭이 움직여도 일관되도록).
+ * aspect: 카메라 프레임 가로/세로 비
+ */
+export function headPoseFromMatrix(m: number[], crop: CropRect, aspect: number): HeadPose {
+  // R[row][col] = m[col * 4 + row], ZYX 오일러 분해
+  const r20 = m[2];
+  const r21 = m[6];
+  const r22 = m[10];
+  const r10 = m[1];
+  const r00 = m[0];
+
+  const tz = m[14] / crop.w;
+  const ky = 2 * Math.tan(FACE_GEOMETRY_VERTICAL_FOV_DEG / 2 / DEG);
+  const kx = ky * aspect;
+  const depth = -tz;
+  return {
+    yaw: Math.asin(Math.max(-1, Math.min(1, -r20))) * DEG,
+    pitch: Math.atan2(r21, r22) * DEG,
+    roll: Math.atan2(r10, r00) * DEG,
+    tx: m[12] + depth * kx * (crop.x + crop.w / 2 - 0.5),
+    ty: m[13] - depth * ky * (crop.y + crop.h / 2 - 0.5), // 이미지 y는 아래, 카메라 y는 위
+    tz,
+  };
+}
+
+/** 자세가 있는 특징인지 (변환 행렬이 없던 프레임은 tz가 0) */
+export function hasPose(p: { tz?: number }): boolean {
+  return !!p.tz;
+}
+
+export function meanPose(poses: HeadPose[]): HeadPose {
+  const mean = (key: keyof HeadPose) => poses.reduce((s, p) => s + p[key], 0) / poses.length;
+  return {
+    yaw: mean("yaw"),
+    pitch: mean("pitch"),
+    roll: mean("roll"),
+    tx: mean("tx"),
+    ty: mean("ty"),
+    tz: mean("tz"),
+  };
+}
+
+/** reference 자세 기준 RMS 편차 (기본: 평균 자세 = 자세 흔들림) */
+export function headMotion(poses: HeadPose[], reference: HeadPose = meanPose(poses)): HeadMotion {
+  const rms = (dist: (p: HeadPose) => number) =>
+    Math.sqrt(poses.reduce((s, p) => s + dist(p) ** 2, 0) / poses.length);
+  return {
+    rotationDeg: rms((p) =>
+      Math.hypot(p.yaw - reference.yaw, p.pitch - reference.pitch, p.roll - reference.roll)
+    ),
+    translationCm: rms((p) =>
+      Math.hypot(p.tx - reference.tx, p.ty - reference.ty, p.tz - reference.tz)
+    ),
+  };
+}
+
+/** 보호자 화면 표시용 */
+export function headMotionLabel(motion: HeadMotion): string {
+  return `회전 ${motion.rotationDeg.toFixed(1)}° · 이동 ${motion.translationCm.toFixed(1)}cm`;
+}
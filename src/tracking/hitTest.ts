@@ -0,0 +1,41 @@
+import { HIT_TEST_PADDING_PX, HYSTERESIS_EXTRA_PX } from "../config";
+
+/** 버튼 화면 영역 (getBoundingClientRect 결과와 호환) */
+export type ButtonRect = Pick<DOMRectReadOnly, "left" | "top" | "right" | "bottom">;
+
+function inside(rect: ButtonRect, x: number, y: number, pad: number): boolean {
+  return (
+    x >= rect.left - pad && x <= rect.right + pad && y >= rect.top - pad && y <= rect.bottom + pad
+  );
+}
+
+/** 오차 반경 안에 중심이 들어오는 버튼 수 (2개 이상이면 어느 버튼을 보는지 알 수 없음) */
+export function coveredButtons(
+  rects: (ButtonRect | null)[],
+  x: number,
+  y: number,
+  radius: number
+): number {
+  return rects.filter(
+    (rect) =>
+      rect && Math.hypot((rect.left + rect.right) / 2 - x, (rect.top + rect.bottom) / 2 - y) <= radius
+  ).length;
+}
+
+/**
+ * 시선 좌표가 가리키는 버튼 인덱스 — 히스테리시스 적용.
+ * 이미 호버 중인 버튼은 더 넓은 exit zone을 벗어나야 놓고, 새 버튼은 enter zone에 들어와야 잡음
+ */
+export function hitTest(
+  rects: (ButtonRect | null)[],
+  x: number,
+  y: number,
+  prev: number | null
+): number | null {
+  const prevRect = prev !== null ? rects[prev] : null;
+  if (prevRect && inside(prevRect, x, y, HIT_TEST_PADDING_PX + HYSTERESIS_EXTRA_PX)) {
+    return prev;
+  }
+  const index = rects.findIndex((rect) => rect && inside(rect, x, y, HIT_TEST_PADDING_PX));
+  return index >= 0 ? index : null;
+}
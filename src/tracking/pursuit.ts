@@ -0,0 +1,100 @@
+import { GazeMapper, type CalibrationSample, type GazeFeatures } from "./GazeMapper";
+import {
+  PURSUIT_DURATION_MS,
+  PURSUIT_FREQ_X,
+  PURSUIT_FREQ_Y,
+  PURSUIT_MARGIN,
+  PURSUIT_MAX_LAG_MS,
+  PURSUIT_LAG_STEP_MS,
+  PURSUIT_BIN_MS,
+  PURSUIT_MIN_BIN_FRAMES,
+} from "../config";
+
+/** 움직이는 점을 따라보는 동안 수집한 프레임 (t = 움직이기 시작한 뒤 경과 ms) */
+export interface PursuitFrame {
+  t: number;
+  features: GazeFeatures;
+}
+
+/**
+ * 목표점 경로: 화면 전체를 덮는 Lissajous 곡선.
+ * t < 0 (움직이기 전)과 한 바퀴 이후는 경로 양 끝에 고정.
+ */
+export function pursuitTarget(t: number, w: number, h: number): { x: number; y: number } {
+  const phase = (2 * Math.PI * Math.min(Math.max(t, 0), PURSUIT_DURATION_MS)) / PURSUIT_DURATION_MS;
+  const ax = 0.5 - PURSUIT_MARGIN;
+  const ay = 0.5 - PURSUIT_MARGIN;
+  return {
+    x: (0.5 + ax * Math.sin(PURSUIT_FREQ_X * phase + Math.PI / 2)) * w,
+    y: (0.5 + ay * Math.sin(PURSUIT_FREQ_Y * phase)) * h,
+  };
+}
+
+function correlation(a: number[], b: number[]): number {
+  const n = a.length;
+  const ma = a.reduce((s, v) => s + v, 0) / n;
+  const mb = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0;
+  let va = 0;
+  let vb = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - ma) * (b[i] - mb);
+    va += (a[i] - ma) ** 2;
+    vb += (b[i] - mb) ** 2;
+  }
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : 0;
+}
+
+/**
+ * 지연 보정: 시선은 점을 뒤따라가므로 t의 특징은 t - lag의 목표점에 대응.
+ * 홍채 비율(rx, ry)과 목표 좌표의 상관이 가장 큰 lag 선택 (부호는 카메라 좌우 반전에 따라 다름).
+ */
+export function estimatePursuitLag(frames: PursuitFrame[], w: number, h: number): number {
+  const rx = frames.map((f) => f.features.rx);
+  const ry = frames.map((f) => f.features.ry);
+
+  let bestLag = 0;
+  let bestScore = -Infinity;
+  for (let lag = 0; lag <= PURSUIT_MAX_LAG_MS; lag += PURSUIT_LAG_STEP_MS) {
+    const targets = frames.map((f) => pursuitTarget(f.t - lag, w, h));
+    const score =
+      Math.abs(correlation(rx, targets.map((p) => p.x))) +
+      Math.abs(correlation(ry, targets.map((p) => p.y)));
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  return bestLag;
+}
+
+/** PURSUIT_BIN_MS 구간별로 프레임을 묶어 지연 보정된 목표점과 짝지은 조밀한 캘리브레이션 샘플 */
+export function pursuitSamples(
+  frames: PursuitFrame[],
+  w: number,
+  h: number,
+  lagMs: number
+): CalibrationSample[] {
+  const bins = new Map<number, PursuitFrame[]>();
+  for (const f of frames) {
+    const key = Math.floor(f.t / PURSUIT_BIN_MS);
+    const bin = bins.get(key);
+    if (bin) bin.push(f);
+    else bins.set(key, [f]);
+  }
+
+  const samples: CalibrationSample[] = [];
+  for (const bin of bins.values()) {
+    if (bin.length < PURSUIT_MIN_BIN_FRAMES) continue;
+    const targets = bin.map((f) => pursuitTarget(f.t - lagMs, w, h));
+    samples.push({
+      ...GazeMapper.cleanFrames(
+        bin.map((f) => f.features),
+        0
+      ),
+      screenX: targets.reduce((s, p) => s + p.x, 0) / targets.length,
+      screenY: targets.reduce((s, p) => s + p.y, 0) / targets.length,
+    });
+  }
+  return samples;
+}
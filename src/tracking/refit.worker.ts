@@ -0,0 +1,11 @@
+// 암묵적 재피팅 워커 — 계수 피팅과 오차 비교를 UI 스레드 밖에서 실행
+import { refitCoefficients } from "./GazeMapper";
+import type { RefitWorkerRequest, RefitWorkerResponse } from "./ImplicitCalibrator";
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<RefitWorkerRequest>) => {
+  const { id, request } = e.data;
+  const response: RefitWorkerResponse = { id, result: refitCoefficients(request) };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,134 @@
+import { DWELL_TIME_SEC, DWELL_BLINK_CONFIRM_SEC } from "../config";
+
+export type SelectionMode = "eye-close" | "dwell" | "double-blink" | "dwell-blink";
+
+export const SELECTION_MODE_LABELS: Record<SelectionMode, string> = {
+  "eye-close": "눈 감기",
+  dwell: "응시 (바라보고 있기)",
+  "double-blink": "두 번 깜빡임",
+  "dwell-blink": "응시 후 한 번 깜빡임",
+};
+
+/** 프레임마다 보드가 전달하는 입력 */
+export interface SelectionInput {
+  hovered: number | null; // 현재 호버 중인 버튼 인덱스
+  tMs: number;
+  eyeCloseSelect: boolean; // EYE_CLOSE_SELECT_SEC 이상 감음 (이번 프레임에 발동)
+  doubleBlink: boolean; // 이번 프레임에 두 번 깜빡임 완료
+  blinkCount: number; // 누적 깜빡임 수 (증가 = 이번 프레임에 깜빡임)
+}
+
+/** 보드 표시용 진행 상태 */
+export interface SelectionProgress {
+  dwell: number; // 응시 진행률 0~1 (응시 방식이 아니면 0)
+  awaitingBlink: boolean; // 응시 완료 — 깜빡임 확인 대기 중
+}
+
+const NO_PROGRESS: SelectionProgress = { dwell: 0, awaitingBlink: false };
+
+/** 호버 중인 버튼을 언제 선택할지 결정 */
+export interface SelectionStrategy {
+  readonly mode: SelectionMode;
+  readonly progress: SelectionProgress;
+  /** true = 현재 호버 버튼 선택 */
+  update(input: SelectionInput): boolean;
+  reset(): void;
+}
+
+class EyeCloseStrategy implements SelectionStrategy {
+  readonly mode = "eye-close";
+  readonly progress = NO_PROGRESS;
+
+  update(input: SelectionInput): boolean {
+    return input.eyeCloseSelect && input.hovered !== null;
+  }
+
+  reset(): void {}
+}
+
+class DoubleBlinkStrategy implements SelectionStrategy {
+  readonly mode = "double-blink";
+  readonly progress = NO_PROGRESS;
+
+  update(input: SelectionInput): boolean {
+    return input.doubleBlink && input.hovered !== null;
+  }
+
+  reset(): void {}
+}
+
+/**
+ * 응시 선택 — 같은 버튼을 DWELL_TIME_SEC 보면 선택 (confirmWithBlink면 이어서 깜빡여야 선택).
+ * 한 번 선택한 버튼은 시선이 떠났다 돌아와야 다시 선택 (계속 보고 있어도 반복 발화하지 않음)
+ */
+class DwellStrategy implements SelectionStrategy {
+  readonly mode: SelectionMode;
+  progress: SelectionProgress = NO_PROGRESS;
+
+  private target: number | null = null;
+  private startMs = 0;
+  private armedAtMs = 0; // 응시 완료 시각 (0 = 아직)
+  private fired = false;
+  private lastBlinkCount = -1;
+
+  constructor(private readonly confirmWithBlink: boolean) {
+    this.mode = confirmWithBlink ? "dwell-blink" : "dwell";
+  }
+
+  update(input: SelectionInput): boolean {
+    const blinked = this.lastBlinkCount >= 0 && input.blinkCount > this.lastBlinkCount;
+    this.lastBlinkCount = input.blinkCount;
+
+    if (input.hovered !== this.target) {
+      this.target = input.hovered;
+      this.startMs = input.tMs;
+      this.armedAtMs = 0;
+      this.fired = false;
+    }
+    if (this.target === null || this.fired) {
+      this.progress = NO_PROGRESS;
+      return false;
+    }
+
+    const dwell = Math.min(1, (input.tMs - this.startMs) / (DWELL_TIME_SEC * 1000));
+    this.progress = { dwell, awaitingBlink: false };
+    if (dwell < 1) return false;
+
+    if (!this.confirmWithBlink || blinked) {
+      this.fired = true;
+      this.progress = NO_PROGRESS;
+      return true;
+    }
+
+    // 깜빡임 대기 — 시간 안에 없으면 응시부터 다시
+    if (this.armedAtMs === 0) this.armedAtMs = input.tMs;
+    if (input.tMs - this.armedAtMs > DWELL_BLINK_CONFIRM_SEC * 1000) {
+      this.startMs = input.tMs;
+      this.armedAtMs = 0;
+      this.progress = NO_PROGRESS;
+      return false;
+    }
+    this.progress = { dwell: 1, awaitingBlink: true };
+    return false;
+  }
+
+  reset(): void {
+    this.target = null;
+    this.armedAtMs = 0;
+    this.fired = false;
+    this.progress = NO_PROGRESS;
+  }
+}
+
+export function createSelectionStrategy(mode: SelectionMode): SelectionStrategy {
+  switch (mode) {
+    case "dwell":
+      return new DwellStrategy(false);
+    case "dwell-blink":
+      return new DwellStrategy(true);
+    case "double-blink":
+      return new DoubleBlinkStrategy();
+    case "eye-close":
+      return new EyeCloseStrategy();
+  }
+}
@@ -0,0 +1,52 @@
+import type { FrameResult } from "../EyeTrackerWorker";
+import type { CalibrationSample } from "../GazeMapper";
+import type { RecordedSettings } from "../SessionRecorder";
+
+export type GazeSourceKind = "webcam" | "mouse" | "scripted" | "replay";
+
+/**
+ * 입력 소스가 내보내는 프레임.
+ *
+ * - landmarks: 얼굴 랜드마크 (웹캠, 녹화 재생) → BlinkDetector + GazeMapper 통과
+ * - gaze: 화면 좌표 + EAR을 직접 지정 (마우스 에뮬레이션, 스크립트) → GazeMapper 생략
+ * - calibration: 캘리브레이션 샘플 적용 (녹화 재생, 스크립트)
+ * - settings / drift / refit: 녹화 당시 프로필 설정, 드리프트 보정, 암묵적 재피팅 재현 (녹화 재생)
+ * - camera: 카메라 연결 상태 변화 (웹캠 분리/재연결, 스트림을 새로 열 때마다 connected)
+ */
+export type SourceFrame =
+  | { type: "landmarks"; timestampMs: number; zoom: number; result: FrameResult | null }
+  | {
+      type: "gaze";
+      timestampMs: number;
+      x: number;
+      y: number;
+      ear: number;
+      faceDetected: boolean;
+    }
+  | { type: "calibration"; timestampMs: number; samples: CalibrationSample[] }
+  | { type: "settings"; timestampMs: number; settings: RecordedSettings }
+  | { type: "drift"; timestampMs: number; samples: CalibrationSample[] }
+  | { type: "refit"; timestampMs: number; samples: CalibrationSample[] }
+  | { type: "camera"; timestampMs: number; connected: boolean };
+
+export interface SourceEmitter {
+  frame(frame: SourceFrame): void;
+  /** 더 이상 프레임이 없음 (녹화 재생/스크립트 종료) */
+  end(): void;
+}
+
+/**
+ * useTracker 뒤의 입력 소스.
+ * start()가 reject되면 오류 화면에 표시됨 (AssetLoadError면 모델 오류로 분류).
+ */
+export interface GazeSource {
+  readonly kind: GazeSourceKind;
+  /** false면 캘리브레이션 없이 바로 보드 사용 */
+  readonly needsCalibration: boolean;
+  start(emit: SourceEmitter): Promise<void>;
+  stop(): void;
+}
+
+// 랜드마크가 없는 소스가 보고하는 EAR (GAZE_FREEZE_EAR/EAR_THRESHOLD 양쪽 기준으로 명확히 구분되는 값)
+export const SYNTHETIC_EAR_OPEN = 0.3;
+export const SYNTHETIC_EAR_CLOSED = 0.1;
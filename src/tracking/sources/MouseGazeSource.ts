@@ -0,0 +1,69 @@
+import { MOUSE_EYE_CLOSE_KEY } from "../../config";
+import {
+  SYNTHETIC_EAR_CLOSED,
+  SYNTHETIC_EAR_OPEN,
+  type GazeSource,
+  type SourceEmitter,
+} from "./GazeSource";
+
+/**
+ * 마우스 에뮬레이션 입력 소스 — 카메라 없이 보드 시연/설정용.
+ * 마우스 위치 = 시선, MOUSE_EYE_CLOSE_KEY를 누르고 있는 동안 = 눈 감음.
+ */
+export class MouseGazeSource implements GazeSource {
+  readonly kind = "mouse";
+  readonly needsCalibration = false;
+
+  private emit: SourceEmitter | null = null;
+  private x = window.innerWidth / 2;
+  private y = window.innerHeight / 2;
+  private eyesClosed = false;
+
+  async start(emit: SourceEmitter): Promise<void> {
+    this.emit = emit;
+    window.addEventListener("mousemove", this.onMouseMove);
+    window.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener("keyup", this.onKeyUp);
+    window.addEventListener("blur", this.onBlur);
+    requestAnimationFrame(this.tick);
+  }
+
+  stop(): void {
+    this.emit = null;
+    window.removeEventListener("mousemove", this.onMouseMove);
+    window.removeEventListener("keydown", this.onKeyDown);
+    window.removeEventListener("keyup", this.onKeyUp);
+    window.removeEventListener("blur", this.onBlur);
+  }
+
+  // 카메라처럼 매 프레임 보고해야 눈 감기 타이머가 진행됨
+  private tick = () => {
+    if (!this.emit) return;
+    this.emit.frame({
+      type: "gaze",
+      timestampMs: performance.now(),
+      x: this.x,
+      y: this.y,
+      ear: this.eyesClosed ? SYNTHETIC_EAR_CLOSED : SYNTHETIC_EAR_OPEN,
+      faceDetected: true,
+    });
+    requestAnimationFrame(this.tick);
+  };
+
+  private onMouseMove = (e: MouseEvent) => {
+    this.x = e.clientX;
+    this.y = e.clientY;
+  };
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.code === MOUSE_EYE_CLOSE_KEY) this.eyesClosed = true;
+  };
+
+  private onKeyUp = (e: KeyboardEvent) => {
+    if (e.code === MOUSE_EYE_CLOSE_KEY) this.eyesClosed = false;
+  };
+
+  private onBlur = () => {
+    this.eyesClosed = false;
+  };
+}
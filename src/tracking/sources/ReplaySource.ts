@@ -0,0 +1,78 @@
+import { GazeMapper } from "../GazeMapper";
+import { decodeLandmarks, eventFrame, type SessionRecording } from "../SessionRecorder";
+import type { GazeSource, SourceEmitter } from "./GazeSource";
+
+/**
+ * 녹화된 세션 재생 소스 — 웹캠 대신 녹화 프레임을 원래 시간 간격대로 공급.
+ * 녹화 이벤트(프로필 설정, 캘리브레이션, 드리프트 보정, 재피팅)도 같은 시각에 내보내 현재 프로필과 무관하게 재현.
+ * 같은 시각이면 이벤트가 프레임보다 먼저 나옴 (녹화 당시 순서와 동일).
+ */
+export class ReplaySource implements GazeSource {
+  readonly kind = "replay";
+  readonly needsCalibration = false; // 녹화에 포함된 캘리브레이션을 그대로 적용
+
+  readonly recording: SessionRecording;
+  private emit: SourceEmitter | null = null;
+  private startedAt = 0;
+  private frameIndex = 0;
+  private eventIndex = 0;
+
+  constructor(recording: SessionRecording) {
+    this.recording = recording;
+  }
+
+  get durationMs(): number {
+    const frames = this.recording.frames;
+    return frames[frames.length - 1].t;
+  }
+
+  /** 녹화 당시와 화면 크기가 다르면 히트 테스트 결과가 달라질 수 있음 */
+  get screenMatches(): boolean {
+    const { width, height } = this.recording.screen;
+    return width === window.innerWidth && height === window.innerHeight;
+  }
+
+  async start(emit: SourceEmitter): Promise<void> {
+    this.emit = emit;
+    this.startedAt = performance.now();
+    requestAnimationFrame(this.tick);
+  }
+
+  stop(): void {
+    this.emit = null;
+  }
+
+  private tick = () => {
+    const emit = this.emit;
+    if (!emit) return;
+
+    const elapsed = performance.now() - this.startedAt;
+    const { frames, events } = this.recording;
+
+    while (this.frameIndex < frames.length && frames[this.frameIndex].t <= elapsed) {
+      const frame = frames[this.frameIndex++];
+      while (this.eventIndex < events.length && events[this.eventIndex].t <= frame.t) {
+        emit.frame(eventFrame(events[this.eventIndex++], this.startedAt));
+      }
+
+      const landmarks = frame.landmarks ? decodeLandmarks(frame.landmarks) : null;
+      const { headPose } = frame;
+      emit.frame({
+        type: "landmarks",
+        timestampMs: this.startedAt + frame.t,
+        zoom: frame.zoom,
+        result: landmarks
+          ? { landmarks, headPose, features: GazeMapper.extractFeatures(landmarks, headPose) }
+          : null,
+      });
+      if (!this.emit) return; // 프레임 처리 중 재생이 중단됨
+    }
+
+    if (this.frameIndex >= frames.length) {
+      this.emit = null;
+      emit.end();
+      return;
+    }
+    requestAnimationFrame(this.tick);
+  };
+}
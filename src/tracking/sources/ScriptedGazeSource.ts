@@ -0,0 +1,95 @@
+import {
+  SYNTHETIC_EAR_CLOSED,
+  SYNTHETIC_EAR_OPEN,
+  type GazeSource,
+  type SourceEmitter,
+} from "./GazeSource";
+
+export interface ScriptStep {
+  atMs: number; // 스크립트 시작 기준
+  x?: number; // 생략 시 직전 값 유지
+  y?: number;
+  eyesClosed?: boolean;
+  faceDetected?: boolean;
+}
+
+interface ScriptedOptions {
+  frameIntervalMs?: number; // 프레임 간격 (기본 30fps)
+  /** true면 rAF로 자동 진행하지 않고 advanceTo()로만 진행 — 자동화 테스트용 */
+  manual?: boolean;
+}
+
+/**
+ * 스크립트 입력 소스 — 정해진 시선/눈 감기 시나리오를 고정 간격 프레임으로 재생.
+ * 각 프레임의 상태는 그 시각 이전의 마지막 스텝까지 누적 적용한 값.
+ */
+export class ScriptedGazeSource implements GazeSource {
+  readonly kind = "scripted";
+  readonly needsCalibration = false;
+
+  private readonly steps: ScriptStep[];
+  private readonly frameIntervalMs: number;
+  private readonly manual: boolean;
+
+  private emit: SourceEmitter | null = null;
+  private startedAt = 0;
+  private nextFrameMs = 0;
+  private stepIndex = 0;
+  private current = { x: 0, y: 0, eyesClosed: false, faceDetected: true };
+
+  constructor(steps: ScriptStep[], options: ScriptedOptions = {}) {
+    this.steps = [...steps].sort((a, b) => a.atMs - b.atMs);
+    this.frameIntervalMs = options.frameIntervalMs ?? 1000 / 30;
+    this.manual = options.manual ?? false;
+  }
+
+  get durationMs(): number {
+    return this.steps.length > 0 ? this.steps[this.steps.length - 1].atMs : 0;
+  }
+
+  async start(emit: SourceEmitter): Promise<void> {
+    this.emit = emit;
+    this.startedAt = performance.now();
+    if (!this.manual) requestAnimationFrame(this.tick);
+  }
+
+  stop(): void {
+    this.emit = null;
+  }
+
+  /** 스크립트 시각 elapsedMs까지의 프레임을 모두 발생 */
+  advanceTo(elapsedMs: number): void {
+    while (this.emit && this.nextFrameMs <= elapsedMs) {
+      const t = this.nextFrameMs;
+      while (this.stepIndex < this.steps.length && this.steps[this.stepIndex].atMs <= t) {
+        const { x, y, eyesClosed, faceDetected } = this.steps[this.stepIndex++];
+        if (x !== undefined) this.current.x = x;
+        if (y !== undefined) this.current.y = y;
+        if (eyesClosed !== undefined) this.current.eyesClosed = eyesClosed;
+        if (faceDetected !== undefined) this.current.faceDetected = faceDetected;
+      }
+
+      this.emit.frame({
+        type: "gaze",
+        timestampMs: this.startedAt + t,
+        x: this.current.x,
+        y: this.current.y,
+        ear: this.current.eyesClosed ? SYNTHETIC_EAR_CLOSED : SYNTHETIC_EAR_OPEN,
+        faceDetected: this.current.faceDetected,
+      });
+      this.nextFrameMs += this.frameIntervalMs;
+
+      if (t >= this.durationMs) {
+        const emit = this.emit;
+        this.emit = null;
+        emit.end();
+      }
+    }
+  }
+
+  private tick = () => {
+    if (!this.emit) return;
+    this.advanceTo(performance.now() - this.startedAt);
+    requestAnimationFrame(this.tick);
+  };
+}
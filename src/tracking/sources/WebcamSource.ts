@@ -0,0 +1,197 @@
+import { EyeTrackerWorker } from "../EyeTrackerWorker";
+import { openCamera, type CameraSettings } from "../cameraSettings";
+import { AutoFramer, type CropRect, type FramingOptions } from "../AutoFramer";
+import type { CameraInfo } from "../calibrationStore";
+import { CAMERA_RECONNECT_INTERVAL_MS } from "../../config";
+import type { GazeSource, SourceEmitter } from "./GazeSource";
+
+/** 줌: 크롭 영역 → 원본 해상도로 리사이즈한 ImageBitmap (워커로 transfer) */
+function captureFrame(video: HTMLVideoElement, crop: CropRect): Promise<ImageBitmap> {
+  if (crop.w >= 1 && crop.h >= 1) return createImageBitmap(video);
+
+  const vw = video.videoWidth;
+  const vh = video.videoHeight;
+
+  return createImageBitmap(video, crop.x * vw, crop.y * vh, crop.w * vw, crop.h * vh, {
+    resizeWidth: vw,
+    resizeHeight: vh,
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 웹캠 + MediaPipe (추론 워커) 입력 소스.
+ *
+ * 카메라가 분리되면(track ended) 추론 워커와 파이프라인은 그대로 둔 채 스트림만 다시 획득
+ * → 재연결 후 캘리브레이션 없이 바로 추적 재개.
+ */
+export class WebcamSource implements GazeSource {
+  readonly kind = "webcam";
+  readonly needsCalibration = true;
+
+  private tracker = new EyeTrackerWorker();
+  private framer = new AutoFramer();
+  private emit: SourceEmitter | null = null;
+  private stopped = false;
+  private inFlight = false; // 워커가 프레임 처리 중 (한 번에 한 프레임)
+  private stream: MediaStream | null = null;
+  private usingFallback = false; // 저장된 카메라 대신 기본 카메라 사용 중
+  private reconnecting = false;
+
+  constructor(
+    private readonly video: HTMLVideoElement,
+    private readonly getFraming: () => FramingOptions,
+    private settings: CameraSettings
+  ) {}
+
+  async start(emit: SourceEmitter): Promise<void> {
+    await this.acquireStream();
+    if (this.stopped) return;
+
+    await this.tracker.init();
+    if (this.stopped) return;
+
+    this.emit = emit;
+    navigator.mediaDevices.addEventListener("devicechange", this.onDeviceChange);
+    requestAnimationFrame(this.processFrame);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.emit = null;
+    navigator.mediaDevices.removeEventListener("devicechange", this.onDeviceChange);
+    this.tracker.close();
+    this.releaseStream();
+  }
+
+  /** start() 완료 후 프레임 처리 중 */
+  get isRunning(): boolean {
+    return this.emit !== null;
+  }
+
+  /** 실제로 열린 카메라 (대체 카메라 포함) — 스트림이 없으면 null */
+  get activeCamera(): CameraInfo | null {
+    const track = this.stream?.getVideoTracks()[0];
+    if (!track) return null;
+    const { deviceId, width, height } = track.getSettings();
+    return {
+      deviceId: deviceId ?? null,
+      label: track.label || null,
+      width: width ?? this.video.videoWidth,
+      height: height ?? this.video.videoHeight,
+    };
+  }
+
+  /** 카메라/해상도 변경 — 추론 워커는 유지. 열지 못하면 이전 설정/스트림 그대로 두고 reject */
+  async reconfigure(settings: CameraSettings): Promise<void> {
+    const previous = this.settings;
+    this.settings = settings;
+    try {
+      await this.acquireStream();
+    } catch (err) {
+      this.settings = previous;
+      throw err;
+    }
+  }
+
+  private async acquireStream(): Promise<void> {
+    const { stream, fallback } = await openCamera(this.settings);
+    if (this.stopped) {
+      stream.getTracks().forEach((t) => t.stop());
+      return;
+    }
+    if (fallback) {
+      console.warn("[Camera] 저장된 카메라를 찾을 수 없어 기본 카메라를 사용합니다");
+    }
+
+    this.releaseStream();
+    this.stream = stream;
+    this.usingFallback = fallback;
+    stream.getVideoTracks()[0]?.addEventListener("ended", this.onTrackEnded);
+
+    this.video.srcObject = stream;
+    await this.video.play();
+    // 다른 장치로 바뀌었을 수 있음 (대체 카메라, 설정 변경) — 받는 쪽에서 캘리브레이션 장치와 비교
+    this.emit?.frame({ type: "camera", timestampMs: performance.now(), connected: true });
+  }
+
+  private releaseStream(): void {
+    if (!this.stream) return;
+    this.stream.getTracks().forEach((t) => {
+      t.removeEventListener("ended", this.onTrackEnded);
+      t.stop();
+    });
+    this.stream = null;
+    this.video.srcObject = null;
+  }
+
+  private get trackLive(): boolean {
+    return this.stream?.getVideoTracks()[0]?.readyState === "live";
+  }
+
+  private onTrackEnded = () => {
+    console.warn("[Camera] 카메라 연결 끊김 — 재연결 시도");
+    this.reconnect();
+  };
+
+  // 장치 연결/분리: 끊긴 스트림 복구, 또는 저장된 카메라가 다시 꽂히면 기본 카메라에서 전환
+  private onDeviceChange = () => {
+    if (!this.trackLive || this.usingFallback) this.reconnect();
+  };
+
+  private async reconnect(): Promise<void> {
+    if (this.reconnecting || this.stopped) return;
+    this.reconnecting = true;
+
+    const lost = !this.trackLive;
+    if (lost) {
+      this.emit?.frame({ type: "camera", timestampMs: performance.now(), connected: false });
+    }
+
+    while (!this.stopped) {
+      try {
+        await this.acquireStream();
+        break;
+      } catch {
+        // 장치가 아직 준비되지 않음 — 계속 시도
+        await sleep(CAMERA_RECONNECT_INTERVAL_MS);
+      }
+    }
+
+    this.reconnecting = false;
+    if (lost && !this.stopped) console.log("[Camera] 재연결됨");
+  }
+
+  private processFrame = () => {
+    if (this.stopped) return;
+
+    const video = this.video;
+    if (video.readyState < 2 || this.inFlight || !this.trackLive) {
+      requestAnimationFrame(this.processFrame);
+      return;
+    }
+
+    // 추론은 워커에서 — UI 스레드는 프레임 캡처만 하고 즉시 다음 rAF로
+    const now = performance.now();
+    const framing = this.getFraming();
+    const crop = this.framer.nextCrop(framing);
+    this.inFlight = true;
+    captureFrame(video, crop)
+      .then((frame) => this.tracker.process(frame, now, crop))
+      .then((result) => {
+        this.framer.update(result?.landmarks ?? null, framing.zoom);
+        this.emit?.frame({ type: "landmarks", timestampMs: now, zoom: framing.zoom, result });
+      })
+      .catch((err) => {
+        if (!this.stopped) console.warn("[Tracker] 프레임 처리 실패:", err);
+      })
+      .finally(() => {
+        this.inFlight = false;
+      });
+
+    requestAnimationFrame(this.processFrame);
+  };
+}
@@ -0,0 +1,70 @@
+// 얼굴 랜드마크 추론 워커 — EyeTracker를 UI 스레드 밖에서 실행
+import { EyeTracker } from "./EyeTracker";
+import { GazeMapper } from "./GazeMapper";
+import { AssetLoadError, isAllowedLoaderUrl } from "./assetLoader";
+import { toFullFrame } from "./AutoFramer";
+import { headPoseFromMatrix } from "./headPose";
+import type { WorkerRequest, WorkerResponse } from "./EyeTrackerWorker";
+
+const ctx = self as unknown as Worker;
+const tracker = new EyeTracker();
+
+// 모듈 워커에서는 importScripts가 TypeError를 던지고 MediaPipe가 self.import()로 폴백함.
+// WASM 로더는 전역 ModuleFactory를 정의하는 클래식 스크립트이므로 전역 스코프에서 실행해야 함.
+// 실행하는 것은 assetLoader가 허용한 URL뿐 (검증한 바이트의 blob URL, 켜 둔 경우 CDN 폴백 로더) — 그 외는 거부.
+(self as unknown as { import: (url: string) => Promise<void> }).import = async (url) => {
+  if (!isAllowedLoaderUrl(url)) {
+    throw new AssetLoadError(url, `허용되지 않은 WASM 로더는 실행하지 않습니다: ${url}`);
+  }
+  const res = await fetch(url);
+  if (!res.ok) throw new AssetLoadError(url, `WASM 로더를 읽을 수 없습니다: ${url}`);
+  (0, eval)(`${await res.text()}\nself.ModuleFactory = ModuleFactory;`);
+};
+
+function post(msg: WorkerResponse): void {
+  ctx.postMessage(msg);
+}
+
+function postError(err: unknown): void {
+  post({
+    type: "error",
+    message: err instanceof Error ? err.message : String(err),
+    asset: err instanceof AssetLoadError ? err.asset : null,
+  });
+}
+
+ctx.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === "init") {
+    try {
+      await tracker.init(msg.assetBaseUrl);
+      post({ type: "ready" });
+    } catch (err) {
+      postError(err);
+    }
+    return;
+  }
+
+  if (msg.type === "frame") {
+    try {
+      const face = tracker.process(msg.frame, msg.timestampMs);
+      // 특징 추출 전에 전체 프레임 좌표로 변환 (크롭이 움직여도 nx/ny 일관성 유지)
+      const landmarks = face && toFullFrame(face.landmarks, msg.crop);
+      const headPose = face?.transform
+        ? headPoseFromMatrix(face.transform, msg.crop, msg.frame.width / msg.frame.height)
+        : null;
+      post({
+        type: "result",
+        timestampMs: msg.timestampMs,
+        landmarks,
+        headPose,
+        features: landmarks ? GazeMapper.extractFeatures(landmarks, headPose) : null,
+      });
+    } catch (err) {
+      postError(err);
+    } finally {
+      msg.frame.close();
+    }
+  }
+};
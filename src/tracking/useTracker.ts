@@ -1,23 +1,62 @@
 import { useRef, useState, useEffect, useCallback } from "react";
-import { EyeTracker } from "./EyeTracker";
-import { BlinkDetector } from "./BlinkDetector";
-import { GazeMapper, type CalibrationSample } from "./GazeMapper";
+import { AssetLoadError } from "./assetLoader";
+import type { CalibrationSample, GazeFeatures } from "./GazeMapper";
 import {
-  GAZE_FREEZE_EAR,
-  GAZE_RECOVERY_FRAMES,
-  EYE_CLOSE_SELECT_SEC,
-  ZOOM_MIN,
-  ZOOM_MAX,
-  ZOOM_STEP,
-} from "../config";
-
-import type { GazeFeatures } from "./GazeMapper";
+  DEFAULT_EAR_THRESHOLDS,
+  type EarBaseline,
+  type EarThresholds,
+} from "./EarBaseline";
+import type { PatientProfile } from "../patientProfile";
+import {
+  SessionRecorder,
+  type RecordedSettings,
+  type SessionRecording,
+} from "./SessionRecorder";
+import {
+  loadCameraSettings,
+  saveCameraSettings,
+  type CameraSettings,
+} from "./cameraSettings";
+import {
+  saveCalibration,
+  calibrationMismatch,
+  cameraMismatch,
+  type CameraInfo,
+  type SavedCalibration,
+} from "./calibrationStore";
+import { TrackingPipeline } from "./TrackingPipeline";
+import type { HeadMotion, HeadPose } from "./headPose";
+import type { DistanceGuide } from "./viewingDistance";
+import type { PositionStatus } from "./PositionMonitor";
+import {
+  currentDisplay,
+  onDisplayChange,
+  compareDisplays,
+  toScreen,
+  type DisplayInfo,
+} from "../display";
+import { DEFAULT_FILTER_SETTINGS } from "./gazeFilters";
+import {
+  EMPTY_FIXATION_STATS,
+  type Fixation,
+  type FixationStats,
+  type GazeEvent,
+} from "./FixationDetector";
+import type { GazeSource, GazeSourceKind, SourceFrame } from "./sources/GazeSource";
+import { WebcamSource } from "./sources/WebcamSource";
+import { MouseGazeSource } from "./sources/MouseGazeSource";
+import { ReplaySource } from "./sources/ReplaySource";
+import { ZOOM_MIN, ZOOM_MAX, ZOOM_STEP } from "../config";
 
 export interface TrackerState {
   isLoading: boolean;
   error: string | null;
+  errorKind: "camera" | "model" | null; // 오류 화면 안내 문구 선택용
+  cameraConnected: boolean; // false = 카메라 분리됨, 재연결 시도 중
   faceDetected: boolean;
-  ear: number;
+  ear: number; // 눈별 가중 결합 EAR
+  leftEar: number;
+  rightEar: number;
   blinkCount: number;
   doubleBlink: boolean;
   irisRx: number;
@@ -27,20 +66,39 @@ export interface TrackerState {
   noseX: number;
   noseY: number;
   eyeLidOpen: number; // 눈꺼풀 열림 높이 (ey)
+  headPose: HeadPose | null; // 3D 머리 자세 (변환 행렬이 없는 소스는 null)
+  headMotion: HeadMotion | null; // 최근 머리 자세가 캘리브레이션 때 평균 자세에서 벗어난 정도
+  viewingDistanceCm: number | null; // 홍채 크기로 추정한 카메라까지 거리 (스무딩)
+  distanceGuide: DistanceGuide | null; // 캘리브레이션 때 거리 범위를 벗어났을 때 자세 안내
+  position: PositionStatus | null; // 캘리브레이션 때 머리 위치 범위 대비 변화 (null = 판정 전)
+  features: GazeFeatures | null; // 눈별 특징 포함 원본 (캘리브레이션 수집용)
   gazeX: number;
   gazeY: number;
   gazeValid: boolean;
+  gazeErrorPx: number; // 예측 오차 반경 (캘리브레이션 잔차 + 외삽 + 떨림, 0 = 직접 지정 좌표)
   fps: number;
   eyesClosed: boolean; // 눈 감고 있는지
   eyeClosedSec: number; // 눈 감은 지속 시간(초)
   eyeCloseSelect: boolean; // 2초 이상 감아서 선택 트리거
+  earThresholds: EarThresholds; // 현재 적용 중인 EAR 임계값 (환자별 적응)
+  earBaseline: EarBaseline | null; // null = 베이스라인 미측정 (기본값 사용)
+  implicitSamples: number; // 선택으로부터 학습한 샘플 수
+  fixation: Fixation | null; // 진행 중인 고정 (null = 도약 중/시선 무효)
+  gazeEvents: GazeEvent[]; // 이번 프레임에 발생한 고정/도약 이벤트
+  fixationStats: FixationStats;
 }
 
+export type SessionMode = "live" | "recording" | "replay";
+
 const INITIAL_STATE: TrackerState = {
   isLoading: true,
   error: null,
+  errorKind: null,
+  cameraConnected: true,
   faceDetected: false,
   ear: 0,
+  leftEar: 0,
+  rightEar: 0,
   blinkCount: 0,
   doubleBlink: false,
   irisRx: 0,
@@ -50,243 +108,390 @@ const INITIAL_STATE: TrackerState = {
   noseX: 0,
   noseY: 0,
   eyeLidOpen: 0,
+  headPose: null,
+  headMotion: null,
+  viewingDistanceCm: null,
+  distanceGuide: null,
+  position: null,
+  features: null,
   gazeX: 0,
   gazeY: 0,
   gazeValid: false,
+  gazeErrorPx: 0,
   fps: 0,
   eyesClosed: false,
   eyeClosedSec: 0,
   eyeCloseSelect: false,
+  earThresholds: DEFAULT_EAR_THRESHOLDS,
+  earBaseline: null,
+  implicitSamples: 0,
+  fixation: null,
+  gazeEvents: [],
+  fixationStats: EMPTY_FIXATION_STATS,
 };
 
-export function useTracker() {
+/** 실제 눈 랜드마크로 EAR을 계산하는 소스 (웹캠, 녹화 재생) */
+function usesLandmarks(source: GazeSource): boolean {
+  return source.kind === "webcam" || source.kind === "replay";
+}
+
+/** profile: 활성 환자 프로필 (사용할 눈, EAR 베이스라인, 시선 필터, 선택 방식) */
+export function useTracker(profile: PatientProfile) {
+  const {
+    eye: eyeChoice,
+    earBaseline = null,
+    filter = DEFAULT_FILTER_SETTINGS,
+    selectionMode = "eye-close",
+  } = profile;
+  const profileIdRef = useRef(profile.id);
+  profileIdRef.current = profile.id;
   const videoRef = useRef<HTMLVideoElement>(null);
   const [state, setState] = useState<TrackerState>(INITIAL_STATE);
 
-  const eyeTrackerRef = useRef<EyeTracker>(new EyeTracker());
-  const blinkDetectorRef = useRef<BlinkDetector>(new BlinkDetector());
-  const gazeMapperRef = useRef<GazeMapper>(new GazeMapper());
-  const runningRef = useRef(false);
-  const prevTimeRef = useRef(0);
-  const fpsRef = useRef(0);
-  const lastGazeRef = useRef({ x: 0, y: 0 });
-
-  // Gaze freeze state
-  const recoveryCountRef = useRef(0); // 눈 뜬 후 남은 안정화 프레임
-  const wasFrozenRef = useRef(false); // 직전 프레임이 freeze 상태였는지
-
-  // 눈 감은 시간 추적
-  const eyeClosedStartRef = useRef(0); // 눈 감기 시작한 timestamp (0 = 안 감음)
-  const eyeCloseSelectFiredRef = useRef(false); // 이미 선택 발동했는지
+  // 웹캠 파이프라인은 소스를 바꿔도 유지 (캘리브레이션 보존)
+  const livePipelineRef = useRef(new TrackingPipeline());
+  const pipelineRef = useRef(livePipelineRef.current);
+  const sourceRef = useRef<GazeSource | null>(null);
+  const eyeChoiceRef = useRef(eyeChoice);
+  const filterRef = useRef(filter);
+  const earBaselineRef = useRef(earBaseline);
+  const selectionModeRef = useRef(selectionMode);
+
+  // 웹캠 캘리브레이션이 묶인 디스플레이 (null = 미캘리브레이션)
+  const displayRef = useRef<DisplayInfo | null>(null);
+  const boundDisplayRef = useRef<DisplayInfo | null>(null);
+  const [displayNotice, setDisplayNotice] = useState<string | null>(null);
+  const [sourceKind, setSourceKind] = useState<GazeSourceKind>("webcam");
+
+  // Camera device / resolution (저장된 선택 유지)
+  const [cameraSettings, setCameraSettingsState] = useState(loadCameraSettings);
+  const cameraSettingsRef = useRef(cameraSettings);
+  // 웹캠 캘리브레이션을 만든 카메라 (null = 미캘리브레이션) — 다른 장치로 바뀌면 캘리브레이션 폐기
+  const boundCameraRef = useRef<CameraInfo | null>(null);
+  const [cameraNotice, setCameraNotice] = useState<string | null>(null);
 
   // Zoom state
   const zoomLevelRef = useRef(1.0);
   const [zoomLevel, setZoomLevelState] = useState(1.0);
-  const zoomCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const zoomCtxRef = useRef<CanvasRenderingContext2D | null>(null);
-
-  useEffect(() => {
-    let cancelled = false;
-
-    async function init() {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { width: 1280, height: 720, facingMode: "user" },
-        });
+  const autoFrameRef = useRef(true); // 얼굴 따라가는 크롭 (false = 중앙 고정)
+  const [autoFrame, setAutoFrameState] = useState(true);
+
+  // Session recording
+  const [recording, setRecording] = useState(false);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const lastCalibrationRef = useRef<CalibrationSample[] | null>(null);
+  // 재생 중인 녹화의 프로필 설정 (보드 선택 방식은 현재 프로필 대신 이 값)
+  const [replaySettings, setReplaySettings] = useState<RecordedSettings | null>(null);
+
+  const recordedSettings = useCallback(
+    (): RecordedSettings => ({
+      eye: eyeChoiceRef.current,
+      earBaseline: earBaselineRef.current,
+      filter: filterRef.current,
+      selectionMode: selectionModeRef.current,
+    }),
+    []
+  );
+
+  /** 실제로 열린 카메라가 캘리브레이션 때와 다른 장치/화면비면 웹캠 캘리브레이션 폐기 (같은 장치 재연결이면 유지) */
+  const checkCamera = useCallback(() => {
+    const source = sourceRef.current;
+    const bound = boundCameraRef.current;
+    const active = source instanceof WebcamSource ? source.activeCamera : null;
+    if (!bound || !active || !livePipelineRef.current.gaze.isCalibrated) return;
+
+    const reason = cameraMismatch(bound, active);
+    if (!reason) return;
+    console.warn(`[Camera] ${reason} — 캘리브레이션 폐기`);
+    livePipelineRef.current.resetCalibration();
+    boundCameraRef.current = null;
+    boundDisplayRef.current = null;
+    setDisplayNotice(null);
+    setCameraNotice(reason);
+  }, []);
 
-        if (cancelled) {
-          stream.getTracks().forEach((t) => t.stop());
-          return;
-        }
-
-        const video = videoRef.current;
-        if (!video) return;
-        video.srcObject = stream;
-        await video.play();
-
-        // 줌용 오프스크린 캔버스 초기화
-        const canvas = document.createElement("canvas");
-        canvas.width = video.videoWidth || 1280;
-        canvas.height = video.videoHeight || 720;
-        zoomCanvasRef.current = canvas;
-        zoomCtxRef.current = canvas.getContext("2d");
-
-        await eyeTrackerRef.current.init();
-        if (cancelled) return;
-
-        setState((s) => ({ ...s, isLoading: false }));
-        runningRef.current = true;
-        prevTimeRef.current = performance.now();
-        requestAnimationFrame(processFrame);
-      } catch (err) {
-        if (!cancelled) {
+  const handleFrame = useCallback((source: GazeSource, frame: SourceFrame) => {
+    if (frame.type === "camera" && frame.connected && source.kind === "webcam") checkCamera();
+    if (frame.type === "landmarks") {
+      if (source.kind === "webcam") {
+        recorderRef.current?.addFrame(
+          frame.timestampMs,
+          frame.zoom,
+          frame.result?.landmarks ?? null,
+          frame.result?.headPose ?? null
+        );
+      } else {
+        setZoomLevelState(frame.zoom);
+      }
+    }
+    if (frame.type === "settings") setReplaySettings(frame.settings);
+    const update = pipelineRef.current.process(frame);
+    if (update) setState((s) => ({ ...s, ...update }));
+  }, [checkCamera]);
+
+  /** 입력 소스 교체. 이전 소스는 정지되고, 웹캠이 아니면 새 파이프라인에서 시작 */
+  const switchSource = useCallback(
+    (source: GazeSource) => {
+      sourceRef.current?.stop();
+      sourceRef.current = source;
+
+      const pipeline =
+        source.kind === "webcam" ? livePipelineRef.current : new TrackingPipeline();
+      if (pipeline !== livePipelineRef.current) {
+        pipeline.setEyeChoice(eyeChoiceRef.current);
+        pipeline.setFilter(filterRef.current);
+        // 마우스/스크립트는 고정 합성 EAR을 내므로 환자 베이스라인을 쓰면 눈 감음 판정이 어긋남
+        if (usesLandmarks(source)) pipeline.setEarBaseline(earBaselineRef.current);
+      }
+      pipeline.resume();
+      pipelineRef.current = pipeline;
+      if (source.kind !== "webcam") recorderRef.current = null;
+      setReplaySettings(null);
+
+      setSourceKind(source.kind);
+      setRecording(!!recorderRef.current);
+      setZoomLevelState(zoomLevelRef.current);
+      setState((s) => ({ ...s, isLoading: true, error: null, errorKind: null, faceDetected: false }));
+
+      const isActive = () => sourceRef.current === source;
+      source
+        .start({
+          frame: (f) => {
+            if (isActive()) handleFrame(source, f);
+          },
+          end: () => {
+            if (isActive()) switchToWebcam();
+          },
+        })
+        .then(() => {
+          if (!isActive()) return;
+          setState((s) => ({ ...s, isLoading: false }));
+          if (source instanceof WebcamSource) {
+            // 열리는 데 성공한 설정만 저장, 대체 카메라로 열렸으면 캘리브레이션 장치와 비교
+            saveCameraSettings(cameraSettingsRef.current);
+            checkCamera();
+          }
+        })
+        .catch((err) => {
+          if (!isActive()) return;
           const msg =
             err instanceof Error ? err.message : "카메라를 열 수 없습니다";
-          setState((s) => ({ ...s, isLoading: false, error: msg }));
-        }
-      }
+          const errorKind = err instanceof AssetLoadError ? "model" : "camera";
+          setState((s) => ({ ...s, isLoading: false, error: msg, errorKind }));
+        });
+    },
+    [handleFrame, checkCamera]
+  );
+
+  /** 웹캠 소스로 복귀 — 캘리브레이션이 남아 있으면 true */
+  const switchToWebcam = useCallback((): boolean => {
+    const video = videoRef.current;
+    if (video) {
+      switchSource(
+        new WebcamSource(
+          video,
+          () => ({ zoom: zoomLevelRef.current, autoFrame: autoFrameRef.current }),
+          cameraSettingsRef.current
+        )
+      );
     }
+    return livePipelineRef.current.gaze.isCalibrated;
+  }, [switchSource]);
 
-    function processFrame() {
-      if (!runningRef.current) return;
+  const switchToMouse = useCallback(() => {
+    switchSource(new MouseGazeSource());
+  }, [switchSource]);
 
-      const video = videoRef.current;
-      if (!video || video.readyState < 2) {
-        requestAnimationFrame(processFrame);
-        return;
-      }
+  // 프로필의 눈 설정 변경 — 기존 캘리브레이션은 다른 가중치로 학습되었으므로 폐기
+  useEffect(() => {
+    if (eyeChoiceRef.current === eyeChoice) return;
+    eyeChoiceRef.current = eyeChoice;
+    for (const pipeline of new Set([livePipelineRef.current, pipelineRef.current])) {
+      pipeline.resetCalibration();
+      pipeline.setEyeChoice(eyeChoice);
+    }
+  }, [eyeChoice]);
 
-      const now = performance.now();
-      const dt = now - prevTimeRef.current;
-      if (dt > 0) {
-        fpsRef.current = 0.9 * fpsRef.current + 0.1 * (1000 / dt);
-      }
-      prevTimeRef.current = now;
-
-      // --- 줌 처리: 중앙 크롭 → 캔버스 스케일 ---
-      const zoom = zoomLevelRef.current;
-      let input: HTMLVideoElement | HTMLCanvasElement = video;
-
-      if (zoom > 1 && zoomCanvasRef.current && zoomCtxRef.current) {
-        const canvas = zoomCanvasRef.current;
-        const ctx = zoomCtxRef.current;
-        const vw = video.videoWidth;
-        const vh = video.videoHeight;
-
-        // 크롭 영역 (중앙 기준)
-        const cropW = vw / zoom;
-        const cropH = vh / zoom;
-        const cropX = (vw - cropW) / 2;
-        const cropY = (vh - cropH) / 2;
-
-        // 크롭한 영역을 캔버스 전체에 그려서 확대 효과
-        ctx.drawImage(video, cropX, cropY, cropW, cropH, 0, 0, canvas.width, canvas.height);
-        input = canvas;
-      }
+  // 프로필별 시선 필터 — 캘리브레이션은 그대로 두고 필터만 교체
+  useEffect(() => {
+    filterRef.current = filter;
+    for (const pipeline of new Set([livePipelineRef.current, pipelineRef.current])) {
+      pipeline.setFilter(filter);
+    }
+  }, [filter]);
 
-      const landmarks = eyeTrackerRef.current.process(input, now);
+  // 환자별 EAR 베이스라인 — 측정 직후/프로필 전환 시 웹캠과 (랜드마크 소스면) 현재 파이프라인에 적용
+  useEffect(() => {
+    earBaselineRef.current = earBaseline;
+    livePipelineRef.current.setEarBaseline(earBaseline);
+    if (sourceRef.current && usesLandmarks(sourceRef.current)) {
+      pipelineRef.current.setEarBaseline(earBaseline);
+    }
+  }, [earBaseline]);
 
-      if (landmarks) {
-        const blink = blinkDetectorRef.current;
-        blink.update(landmarks);
+  // 녹화 중 프로필 설정이 바뀌면 기록 (재생/필터 비교는 현재 프로필 대신 녹화 당시 설정을 씀)
+  useEffect(() => {
+    selectionModeRef.current = selectionMode;
+    recorderRef.current?.addSettings(performance.now(), recordedSettings());
+  }, [eyeChoice, earBaseline, filter, selectionMode, recordedSettings]);
+
+  useEffect(() => {
+    livePipelineRef.current.setEyeChoice(eyeChoiceRef.current);
+    livePipelineRef.current.implicit.onRefit = (samples) =>
+      recorderRef.current?.addRefit(performance.now(), samples);
+    switchToWebcam();
+
+    return () => {
+      sourceRef.current?.stop();
+      sourceRef.current = null;
+    };
+  }, [switchToWebcam]);
 
-        const gaze = gazeMapperRef.current;
+  const calibrate = useCallback((samples: CalibrationSample[]): boolean => {
+    lastCalibrationRef.current = samples;
+    const source = sourceRef.current;
+    if (source?.kind === "webcam") {
+      recorderRef.current?.addCalibration(performance.now(), samples);
+    }
+    const pipeline = pipelineRef.current;
+    if (!pipeline.calibrate(samples)) return false;
+
+    // 웹캠 캘리브레이션은 다음 실행 시 재사용할 수 있도록 저장
+    const model = pipeline.gaze.exportModel();
+    const display = displayRef.current;
+    if (source instanceof WebcamSource) {
+      boundDisplayRef.current = display;
+      boundCameraRef.current = source.activeCamera;
+      setDisplayNotice(null);
+    }
+    if (source instanceof WebcamSource && model && display) {
+      saveCalibration({
+        version: 2,
+        savedAt: new Date().toISOString(),
+        profileId: profileIdRef.current,
+        eye: eyeChoiceRef.current,
+        display,
+        camera: source.activeCamera,
+        zoom: zoomLevelRef.current,
+        model,
+        samples: pipeline.gaze.exportSamples(),
+      }).catch((err) => console.warn("[Calibration] 저장 실패:", err));
+    }
+    return true;
+  }, []);
 
-        // --- 눈 감음 판정 (GAZE_FREEZE_EAR: 0.26) ---
-        const eyesClosed = blink.ear < GAZE_FREEZE_EAR;
+  /** 현재 입력 소스의 마지막 캘리브레이션 진단 */
+  const calibrationDiagnostics = useCallback(
+    () => pipelineRef.current.gaze.lastDiagnostics,
+    []
+  );
 
-        // --- 눈 감은 지속시간 추적 ---
-        let eyeClosedSec = 0;
-        let eyeCloseSelect = false;
+  /** 보드에서 선택 확정 — 버튼 중심을 암묵적 캘리브레이션 후보로 (재생 중에는 녹화된 재피팅만 적용) */
+  const confirmSelection = useCallback((target: { x: number; y: number }) => {
+    if (sourceRef.current?.kind === "replay") return;
+    pipelineRef.current.confirmSelection(target, performance.now());
+  }, []);
 
-        if (eyesClosed) {
-          if (eyeClosedStartRef.current === 0) {
-            eyeClosedStartRef.current = now;
-            eyeCloseSelectFiredRef.current = false;
-          }
-          eyeClosedSec = (now - eyeClosedStartRef.current) / 1000;
-
-          if (
-            eyeClosedSec >= EYE_CLOSE_SELECT_SEC &&
-            !eyeCloseSelectFiredRef.current
-          ) {
-            eyeCloseSelect = true;
-            eyeCloseSelectFiredRef.current = true;
-          }
-        } else {
-          eyeClosedStartRef.current = 0;
-        }
-
-        // --- 시선 업데이트 판정 ---
-        let shouldFreeze = eyesClosed;
-
-        if (!eyesClosed && recoveryCountRef.current > 0) {
-          // 눈 뜬 직후 안정화 대기
-          shouldFreeze = true;
-          recoveryCountRef.current--;
-        } else if (eyesClosed) {
-          // 눈 감으면 recovery 카운터 리셋
-          recoveryCountRef.current = GAZE_RECOVERY_FRAMES;
-        }
-
-        // 항상 특징 추출 (캘리브레이션 중에도 정확한 값 필요)
-        // 시선 예측(화면좌표 매핑)만 freeze 적용
-        const features = gaze.extractFeatures(landmarks);
-        let gazeX = lastGazeRef.current.x,
-          gazeY = lastGazeRef.current.y,
-          gazeValid = gaze.isCalibrated;
-
-        if (!shouldFreeze && gaze.isCalibrated) {
-          // freeze → active 전환: 스무딩 버퍼 리셋 (stale 데이터 제거)
-          if (wasFrozenRef.current) {
-            gaze.resetSmoothing();
-            wasFrozenRef.current = false;
-          }
-          const predicted = gaze.predict(features);
-          gazeX = predicted.x;
-          gazeY = predicted.y;
-          lastGazeRef.current = { x: gazeX, y: gazeY };
-          gazeValid = true;
-        }
-        if (shouldFreeze) {
-          wasFrozenRef.current = true;
-        }
-
-        setState({
-          isLoading: false,
-          error: null,
-          faceDetected: true,
-          ear: blink.ear,
-          blinkCount: blink.blinkCount,
-          doubleBlink: blink.doubleBlink,
-          irisRx: features.rx,
-          irisRy: features.ry,
-          headX: features.hx,
-          headY: features.hy,
-          noseX: features.nx,
-          noseY: features.ny,
-          eyeLidOpen: features.ey,
-          gazeX,
-          gazeY,
-          gazeValid,
-          fps: fpsRef.current,
-          eyesClosed,
-          eyeClosedSec,
-          eyeCloseSelect,
-        });
-      } else {
-        setState((s) => ({
-          ...s,
-          faceDetected: false,
-          fps: fpsRef.current,
-        }));
-      }
+  /** 보드에서 "뒤로" — 직전 선택은 잘못된 것으로 보고 학습하지 않음 */
+  const rejectLastSelection = useCallback(() => {
+    if (sourceRef.current?.kind === "replay") return;
+    pipelineRef.current.rejectLastSelection();
+  }, []);
 
-      requestAnimationFrame(processFrame);
+  /** 빠른 드리프트 보정 — 기존 캘리브레이션 위에 보정만 추가 */
+  const correctDrift = useCallback((samples: CalibrationSample[]): boolean => {
+    if (sourceRef.current?.kind === "webcam") {
+      recorderRef.current?.addDrift(performance.now(), samples);
     }
+    return pipelineRef.current.correctDrift(samples);
+  }, []);
 
-    init();
+  /** 저장된 캘리브레이션을 지금 쓸 수 없는 이유 (쓸 수 있으면 null) */
+  const savedCalibrationMismatch = useCallback(
+    (saved: SavedCalibration, display: DisplayInfo): string | null => {
+      const source = sourceRef.current;
+      return calibrationMismatch(saved, {
+        eye: eyeChoiceRef.current,
+        camera: source instanceof WebcamSource ? source.activeCamera : null,
+        display,
+      });
+    },
+    []
+  );
+
+  /** 저장된 캘리브레이션 복원 (당시 줌 배율 포함) */
+  const restoreCalibration = useCallback((saved: SavedCalibration) => {
+    livePipelineRef.current.restoreCalibration(saved.model, saved.samples);
+    lastCalibrationRef.current = toScreen(saved.samples);
+    boundDisplayRef.current = displayRef.current ?? saved.display;
+    boundCameraRef.current = saved.camera;
+    zoomLevelRef.current = saved.zoom;
+    setZoomLevelState(saved.zoom);
+  }, []);
+
+  const resetCalibration = useCallback(() => {
+    pipelineRef.current.resetCalibration();
+    if (pipelineRef.current === livePipelineRef.current) {
+      boundDisplayRef.current = null;
+      boundCameraRef.current = null;
+      setDisplayNotice(null);
+    }
+  }, []);
 
+  // 디스플레이 변화: 같은 모니터의 배율/해상도 변경은 정규화 좌표로 자동 재매핑,
+  // 다른 모니터/창 영역 변경은 보호자에게 재캘리브레이션 여부를 물음
+  useEffect(() => {
+    let cancelled = false;
+    const check = async () => {
+      const display = await currentDisplay();
+      if (cancelled) return;
+      displayRef.current = display;
+      const bound = boundDisplayRef.current;
+      if (!bound || !livePipelineRef.current.gaze.isCalibrated) return;
+
+      const change = compareDisplays(bound, display);
+      if (change.kind === "remap") {
+        console.log(`[Display] ${change.reason} — 캘리브레이션을 새 화면에 맞춤`);
+        boundDisplayRef.current = display;
+      } else if (change.kind === "recalibrate") {
+        console.warn(`[Display] ${change.reason} — 재캘리브레이션 필요`);
+        setDisplayNotice(change.reason);
+      } else {
+        setDisplayNotice(null); // 원래 화면으로 돌아옴
+      }
+    };
+    check();
+    const off = onDisplayChange(check);
     return () => {
       cancelled = true;
-      runningRef.current = false;
-      eyeTrackerRef.current.close();
-      const video = videoRef.current;
-      if (video?.srcObject) {
-        (video.srcObject as MediaStream)
-          .getTracks()
-          .forEach((t) => t.stop());
-      }
+      off();
     };
   }, []);
 
-  const calibrate = useCallback((samples: CalibrationSample[]): boolean => {
-    return gazeMapperRef.current.calibrate(samples);
+  /** 디스플레이가 바뀌었지만 보호자가 현재 캘리브레이션을 계속 쓰기로 함 */
+  const acceptDisplayChange = useCallback(() => {
+    boundDisplayRef.current = displayRef.current;
+    setDisplayNotice(null);
   }, []);
 
-  const resetCalibration = useCallback(() => {
-    gazeMapperRef.current.reset();
-  }, []);
+  /**
+   * 카메라 설정 즉시 적용 — 스트림이 열린 뒤에만 저장, 실패 시 이전 설정 그대로 두고 reject.
+   * 같은 장치면 캘리브레이션 유지, 다른 장치/화면비면 폐기 (checkCamera)
+   */
+  const applyCameraSettings = useCallback(async (settings: CameraSettings) => {
+    const source = sourceRef.current;
+    if (source instanceof WebcamSource && source.isRunning) {
+      await source.reconfigure(settings);
+      saveCameraSettings(settings);
+    }
+    cameraSettingsRef.current = settings;
+    setCameraSettingsState(settings);
+    // 시작 실패(카메라 오류 화면) 상태 → 처음부터 다시 (열리면 switchSource에서 저장)
+    if (source instanceof WebcamSource && !source.isRunning) switchToWebcam();
+  }, [switchToWebcam]);
+
+  /** 카메라가 바뀌어 캘리브레이션이 폐기되었다는 안내를 처리함 */
+  const clearCameraNotice = useCallback(() => setCameraNotice(null), []);
 
   const zoomIn = useCallback(() => {
     const next = Math.min(ZOOM_MAX, +(zoomLevelRef.current + ZOOM_STEP).toFixed(2));
@@ -300,14 +505,79 @@ export function useTracker() {
     setZoomLevelState(next);
   }, []);
 
+  const toggleAutoFrame = useCallback(() => {
+    autoFrameRef.current = !autoFrameRef.current;
+    setAutoFrameState(autoFrameRef.current);
+  }, []);
+
+  const startRecording = useCallback(() => {
+    if (sourceRef.current?.kind !== "webcam") return;
+    recorderRef.current = new SessionRecorder(
+      performance.now(),
+      recordedSettings(),
+      lastCalibrationRef.current
+    );
+    setRecording(true);
+  }, [recordedSettings]);
+
+  /** 녹화 종료 — 녹화 데이터 반환 (저장은 호출 측) */
+  const stopRecording = useCallback((): SessionRecording | null => {
+    const rec = recorderRef.current?.finish() ?? null;
+    recorderRef.current = null;
+    setRecording(false);
+    return rec;
+  }, []);
+
+  /** 웹캠 대신 녹화된 세션을 재생. 라이브 캘리브레이션은 재생 종료 시 복원됨 */
+  const startReplay = useCallback(
+    (rec: SessionRecording) => {
+      const source = new ReplaySource(rec);
+      if (!source.screenMatches) {
+        const { width, height } = rec.screen;
+        console.warn(
+          `[Replay] 녹화 화면 크기(${width}x${height})와 현재 화면(${window.innerWidth}x${window.innerHeight})이 다릅니다 — 버튼 히트 테스트가 원본과 다를 수 있습니다`
+        );
+      }
+      switchSource(source);
+    },
+    [switchSource]
+  );
+
+  const sessionMode: SessionMode =
+    sourceKind === "replay" ? "replay" : recording ? "recording" : "live";
+
   return {
     state,
     videoRef,
-    gazeMapper: gazeMapperRef.current,
+    gazeMapper: pipelineRef.current.gaze,
     calibrate,
     resetCalibration,
+    calibrationDiagnostics,
+    correctDrift,
+    confirmSelection,
+    rejectLastSelection,
+    savedCalibrationMismatch,
+    restoreCalibration,
+    displayNotice,
+    acceptDisplayChange,
+    cameraNotice,
+    clearCameraNotice,
     zoomLevel,
     zoomIn,
     zoomOut,
+    autoFrame,
+    toggleAutoFrame,
+    cameraSettings,
+    applyCameraSettings,
+    sourceKind,
+    switchSource,
+    switchToWebcam,
+    switchToMouse,
+    sessionMode,
+    selectionMode: replaySettings?.selectionMode ?? selectionMode,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay: switchToWebcam,
   };
 }
@@ -0,0 +1,92 @@
+import type { CalibrationDiagnostics, CalibrationSample } from "./GazeMapper";
+import {
+  VALIDATION_PASS_PX,
+  VALIDATION_WARN_PX,
+  VALIDATION_BAD_POINT_PX,
+  CALIBRATION_REDO_MAX_POINTS,
+} from "../config";
+
+export type ValidationVerdict = "pass" | "warn" | "fail";
+
+export interface ValidationPoint {
+  targetX: number;
+  targetY: number;
+  meanX: number; // 수집한 시선의 평균 위치
+  meanY: number;
+  accuracyPx: number; // 평균 위치와 목표점 거리
+  precisionPx: number; // 평균 위치 주변 흩어짐 (RMS)
+}
+
+export interface ValidationResult {
+  points: ValidationPoint[];
+  accuracyPx: number;
+  precisionPx: number;
+  worstPx: number;
+  verdict: ValidationVerdict;
+}
+
+/** 목표점 하나에서 수집한 시선 좌표 → 정확도/정밀도 */
+export function measurePoint(
+  target: { x: number; y: number },
+  gaze: { x: number; y: number }[]
+): ValidationPoint {
+  const meanX = gaze.reduce((s, g) => s + g.x, 0) / gaze.length;
+  const meanY = gaze.reduce((s, g) => s + g.y, 0) / gaze.length;
+  const variance =
+    gaze.reduce((s, g) => s + (g.x - meanX) ** 2 + (g.y - meanY) ** 2, 0) / gaze.length;
+  return {
+    targetX: target.x,
+    targetY: target.y,
+    meanX,
+    meanY,
+    accuracyPx: Math.hypot(meanX - target.x, meanY - target.y),
+    precisionPx: Math.sqrt(variance),
+  };
+}
+
+/**
+ * 판정: 평균 정확도 ≤ PASS이고 최악 지점 ≤ WARN이면 통과,
+ * 평균 정확도 > WARN이면 실패, 그 외 경고.
+ */
+export function summarizeValidation(points: ValidationPoint[]): ValidationResult {
+  const accuracyPx = points.reduce((s, p) => s + p.accuracyPx, 0) / points.length;
+  const precisionPx = points.reduce((s, p) => s + p.precisionPx, 0) / points.length;
+  const worstPx = Math.max(...points.map((p) => p.accuracyPx));
+
+  let verdict: ValidationVerdict = "warn";
+  if (accuracyPx <= VALIDATION_PASS_PX && worstPx <= VALIDATION_WARN_PX) verdict = "pass";
+  else if (accuracyPx > VALIDATION_WARN_PX) verdict = "fail";
+
+  return { points, accuracyPx, precisionPx, worstPx, verdict };
+}
+
+/**
+ * 다시 수집할 캘리브레이션 포인트: 잔차가 VALIDATION_BAD_POINT_PX보다 크거나,
+ * 이상치로 제거되어 진단에 빠진 포인트. 잔차 큰 순으로 최대 CALIBRATION_REDO_MAX_POINTS개.
+ */
+export function badCalibrationPoints(
+  samples: CalibrationSample[],
+  diagnostics: CalibrationDiagnostics
+): { x: number; y: number }[] {
+  return samples
+    .map((s) => {
+      const p = diagnostics.perPoint.find(
+        (pp) => pp.screenX === s.screenX && pp.screenY === s.screenY
+      );
+      return { x: s.screenX, y: s.screenY, errorPx: p ? p.errorPx : Infinity };
+    })
+    .filter((p) => p.errorPx > VALIDATION_BAD_POINT_PX)
+    .sort((a, b) => b.errorPx - a.errorPx)
+    .slice(0, CALIBRATION_REDO_MAX_POINTS)
+    .map(({ x, y }) => ({ x, y }));
+}
+
+/** 다시 수집한 포인트로 같은 위치의 기존 샘플 교체 */
+export function mergeSamples(
+  samples: CalibrationSample[],
+  redone: CalibrationSample[]
+): CalibrationSample[] {
+  return samples.map(
+    (s) => redone.find((r) => r.screenX === s.screenX && r.screenY === s.screenY) ?? s
+  );
+}
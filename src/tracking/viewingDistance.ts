@@ -0,0 +1,61 @@
+import type { Landmarks } from "./EyeTracker";
+import {
+  LEFT_IRIS,
+  RIGHT_IRIS,
+  IRIS_DIAMETER_MM,
+  FACE_GEOMETRY_VERTICAL_FOV_DEG,
+  DISTANCE_TOLERANCE,
+} from "../config";
+
+/** 캘리브레이션 포인트들의 카메라까지 거리 (cm) */
+export interface DistanceRange {
+  minCm: number;
+  maxCm: number;
+  meanCm: number;
+}
+
+/** closer: 너무 멀어짐 → 가까이, farther: 너무 가까워짐 → 뒤로 */
+export type DistanceGuide = "closer" | "farther";
+
+export const DISTANCE_GUIDE_LABELS: Record<DistanceGuide, string> = {
+  closer: "화면에 조금 더 가까이 와 주세요",
+  farther: "너무 가까워요 — 조금 뒤로 가 주세요",
+};
+
+/**
+ * 홍채 세로 지름 (프레임 높이 기준 정규화, 양쪽 평균) → 카메라까지 거리 (cm).
+ * 카메라 실제 화각을 모르므로 절대값은 근사지만, 자세 안내는 캘리브레이션 때 값과의 비율로만 판정.
+ * 홍채 고리 4점 중 두 번째/네 번째가 위/아래 끝
+ */
+export function irisDistanceCm(landmarks: Landmarks): number {
+  const diameter = (ring: number[]) => Math.abs(landmarks[ring[3]].y - landmarks[ring[1]].y);
+  const d = (diameter(LEFT_IRIS) + diameter(RIGHT_IRIS)) / 2;
+  if (d < 1e-6) return 0;
+  const focal = 1 / (2 * Math.tan((FACE_GEOMETRY_VERTICAL_FOV_DEG * Math.PI) / 360));
+  return (IRIS_DIAMETER_MM / 10) * (focal / d);
+}
+
+/** 거리가 있는 특징인지 (홍채 크기를 잴 수 없던 프레임은 0) */
+export function hasDistance(f: { dist?: number }): boolean {
+  return !!f.dist;
+}
+
+export function distanceRange(distances: number[]): DistanceRange {
+  return {
+    minCm: Math.min(...distances),
+    maxCm: Math.max(...distances),
+    meanCm: distances.reduce((s, d) => s + d, 0) / distances.length,
+  };
+}
+
+/** 현재 거리가 캘리브레이션 범위를 DISTANCE_TOLERANCE 넘게 벗어났으면 안내 */
+export function distanceGuide(currentCm: number, range: DistanceRange): DistanceGuide | null {
+  if (currentCm > range.maxCm * (1 + DISTANCE_TOLERANCE)) return "closer";
+  if (currentCm < range.minCm * (1 - DISTANCE_TOLERANCE)) return "farther";
+  return null;
+}
+
+/** 보호자 화면 표시용 */
+export function distanceRangeLabel(range: DistanceRange): string {
+  return `${range.minCm.toFixed(0)}~${range.maxCm.toFixed(0)}cm`;
+}
@@ -19,4 +19,8 @@ export default defineConfig({
     ]),
     renderer(),
   ],
+  // 추론 워커는 개발/빌드 모두 모듈 워커 (tracker.worker.ts의 MediaPipe 로더 처리 참고)
+  worker: {
+    format: "es",
+  },
 });
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// 테스트는 Electron 플러그인 없이 (vite.config.ts는 Electron 빌드를 함께 띄움)
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
+});